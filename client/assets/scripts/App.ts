@@ -56,8 +56,9 @@ export class App extends cc.Component {
       }
     }
 
-    // Автоматическая авторизация при загрузке (если доступен Telegram WebApp)
-    if ((window as any).Telegram?.WebApp?.initData) {
+    // Автоматическая авторизация при загрузке: Telegram WebApp или сохранённая сессия в браузере
+    const authProxy = this.facade.retrieveProxy("AuthProxy") as any;
+    if ((window as any).Telegram?.WebApp?.initData || authProxy?.hasStoredSession()) {
       this.facade.sendNotification(Notifications.AUTH_REQUEST);
     }
   }
@@ -10,6 +10,13 @@ export class GameConfig {
   static MAX_RECONNECT_ATTEMPTS: number = 5;
   static RECONNECT_DELAY: number = 1000;
 
+  // Telegram deep link для приглашений: https://t.me/<bot>/<app>?startapp=<code>
+  static TELEGRAM_BOT_USERNAME: string = "";
+  static TELEGRAM_APP_NAME: string = "";
+
+  // Matchmaking: опрос статуса заодно служит heartbeat'ом очереди (TTL на сервере 30 с)
+  static MATCHMAKING_POLL_INTERVAL: number = 5000;
+
   // Card display settings
   static CARD_WIDTH: number = 80;
   static CARD_HEIGHT: number = 120;
@@ -31,6 +38,12 @@ export class GameConfig {
         if (config.API_BASE_URL) {
           GameConfig.API_BASE_URL = config.API_BASE_URL;
         }
+        if (config.TELEGRAM_BOT_USERNAME) {
+          GameConfig.TELEGRAM_BOT_USERNAME = config.TELEGRAM_BOT_USERNAME;
+        }
+        if (config.TELEGRAM_APP_NAME) {
+          GameConfig.TELEGRAM_APP_NAME = config.TELEGRAM_APP_NAME;
+        }
       }
 
       // Устанавливаем в глобальную переменную для использования в прокси
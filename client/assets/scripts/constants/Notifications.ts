@@ -11,12 +11,39 @@ export class Notifications {
   static AUTH_REQUEST = "auth_request";
   static AUTH_SUCCESS = "auth_success";
   static AUTH_FAILED = "auth_failed";
+  static PROFILE_LOADED = "profile_loaded";
+  static PROFILE_UPDATE_REQUEST = "profile_update_request";
 
   // Matchmaking
   static MATCHMAKING_REQUEST = "matchmaking_request";
   static MATCHMAKING_SUCCESS = "matchmaking_success";
   static MATCHMAKING_FAILED = "matchmaking_failed";
   static MATCHMAKING_QUEUED = "matchmaking_queued";
+  static MATCHMAKING_STATUS = "matchmaking_status";
+  static MATCHMAKING_CANCEL_REQUEST = "matchmaking_cancel_request";
+  static MATCHMAKING_CANCELLED = "matchmaking_cancelled";
+
+  // Private rooms
+  static CREATE_ROOM_REQUEST = "create_room_request";
+  static JOIN_ROOM_REQUEST = "join_room_request";
+  static ROOM_CREATED = "room_created";
+  static ROOM_JOINED = "room_joined";
+  static ROOM_FAILED = "room_failed";
+  static START_GAME_REQUEST = "start_game_request";
+  static READY_REQUEST = "ready_request";
+  static SPECTATE_REQUEST = "spectate_request";
+  static ROOM_REQUEUED = "room_requeued";
+
+  // Practice (против ботов, без рейтинга)
+  static PRACTICE_REQUEST = "practice_request";
+  static PRACTICE_STARTED = "practice_started";
+
+  // Replay
+  static REPLAY_REQUEST = "replay_request";
+  static REPLAY_LOADED = "replay_loaded";
+  static REPLAY_FAILED = "replay_failed";
+  static REPLAY_STEP_REQUEST = "replay_step_request";
+  static REPLAY_STEP = "replay_step";
 
   // WebSocket
   static WS_CONNECT = "ws_connect";
@@ -25,6 +52,12 @@ export class Notifications {
   static WS_ERROR = "ws_error";
   static WS_JOIN = "ws_join";
   static WS_JOINED = "ws_joined";
+  static WS_RECONNECTING = "ws_reconnecting";
+  static WS_RECONNECTED = "ws_reconnected";
+  static WS_RECONNECT_FAILED = "ws_reconnect_failed";
+
+  // Presence
+  static PLAYER_PRESENCE_CHANGED = "player_presence_changed";
 
   // Game State
   static GAME_STATE_UPDATED = "game_state_updated";
@@ -34,6 +67,7 @@ export class Notifications {
   static ATTACK_REQUEST = "attack_request";
   static DEFEND_REQUEST = "defend_request";
   static TRANSFER_REQUEST = "transfer_request";
+  static TRANSFER_SHOW_REQUEST = "transfer_show_request";
   static TAKE_REQUEST = "take_request";
   static BEAT_REQUEST = "beat_request";
   static PASS_REQUEST = "pass_request";
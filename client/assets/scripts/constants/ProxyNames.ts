@@ -6,4 +6,6 @@ export class ProxyNames {
   static AUTH_PROXY = "AuthProxy";
   static GAME_PROXY = "GameProxy";
   static WEBSOCKET_PROXY = "WebSocketProxy";
+  static LOBBY_PROXY = "LobbyProxy";
+  static REPLAY_PROXY = "ReplayProxy";
 }
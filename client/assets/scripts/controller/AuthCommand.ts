@@ -16,7 +16,8 @@ export class AuthCommand extends SimpleCommand {
     if (initData) {
       authProxy.authenticate(initData);
     } else {
-      authProxy.authenticateWithTelegram();
+      // body.widget - payload Telegram Login Widget, если вход из браузера
+      authProxy.authenticateWithTelegram(notification.body?.widget);
     }
   }
 }
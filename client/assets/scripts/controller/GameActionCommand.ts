@@ -53,6 +53,21 @@ export class TransferCommand extends SimpleCommand {
   }
 }
 
+export class TransferShowCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const wsProxy = this.facade?.retrieveProxy(ProxyNames.WEBSOCKET_PROXY) as WebSocketProxy;
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    
+    if (!wsProxy || !gameProxy) return;
+    if (!gameProxy.canTransferShow()) return;
+
+    const card = notification.body?.card;
+    if (card) {
+      wsProxy.transferShow(card);
+    }
+  }
+}
+
 export class TakeCommand extends SimpleCommand {
   execute(notification: Notification): void {
     const wsProxy = this.facade?.retrieveProxy(ProxyNames.WEBSOCKET_PROXY) as WebSocketProxy;
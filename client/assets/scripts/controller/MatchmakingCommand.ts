@@ -22,3 +22,12 @@ export class MatchmakingCommand extends SimpleCommand {
     gameProxy.requestMatchmaking(config);
   }
 }
+
+export class MatchmakingCancelCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    if (!gameProxy) return;
+
+    gameProxy.cancelMatchmaking();
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Practice Command - тренировочная партия против ботов (без матчмейкинга и рейтинга)
+ */
+
+import { SimpleCommand } from "../core/PureMVC";
+import { Notification } from "../core/PureMVC";
+import { ProxyNames } from "../constants/ProxyNames";
+import { GameProxy } from "../model/proxy/GameProxy";
+import { BotLevel, RoomConfig } from "../types/GameTypes";
+
+export class PracticeCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    if (!gameProxy) return;
+
+    const config: RoomConfig = notification.body?.config || {
+      mode: "perevodnoy",
+      deckSize: 36,
+      maxPlayers: 2,
+    };
+    const level: BotLevel = notification.body?.level || "easy";
+
+    gameProxy.startPractice(config, level);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Private Room Commands - приватные комнаты по коду приглашения и готовность в лобби
+ */
+
+import { SimpleCommand } from "../core/PureMVC";
+import { Notification } from "../core/PureMVC";
+import { ProxyNames } from "../constants/ProxyNames";
+import { GameProxy } from "../model/proxy/GameProxy";
+import { WebSocketProxy } from "../model/proxy/WebSocketProxy";
+import { RoomConfig } from "../types/GameTypes";
+
+export class CreateRoomCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    if (!gameProxy) return;
+
+    const config: RoomConfig = notification.body?.config || {
+      mode: "podkidnoy",
+      deckSize: 36,
+      maxPlayers: 2,
+    };
+
+    gameProxy.createPrivateRoom(config);
+  }
+}
+
+export class JoinRoomCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    if (!gameProxy) return;
+
+    const code = String(notification.body?.code || "").trim().toUpperCase();
+    if (code) {
+      gameProxy.joinPrivateRoom(code);
+    }
+  }
+}
+
+export class StartGameCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const wsProxy = this.facade?.retrieveProxy(ProxyNames.WEBSOCKET_PROXY) as WebSocketProxy;
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+
+    if (!wsProxy || !gameProxy) return;
+    if (!gameProxy.canStart()) return;
+
+    wsProxy.startGame();
+  }
+}
+
+export class ReadyCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const wsProxy = this.facade?.retrieveProxy(ProxyNames.WEBSOCKET_PROXY) as WebSocketProxy;
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+
+    if (!wsProxy || !gameProxy) return;
+    if (gameProxy.getGameState()?.phase !== "lobby" || gameProxy.isSpectator() || gameProxy.isReady()) return;
+
+    wsProxy.ready();
+  }
+}
+
+// Зритель подключается к сокету комнаты без места за столом
+export class SpectateCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const wsProxy = this.facade?.retrieveProxy(ProxyNames.WEBSOCKET_PROXY) as WebSocketProxy;
+    if (!wsProxy) return;
+
+    const roomId = String(notification.body?.code || "").trim();
+    if (roomId) {
+      wsProxy.connect(roomId, `/ws/${roomId}`);
+    }
+  }
+}
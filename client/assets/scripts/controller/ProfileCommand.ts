@@ -0,0 +1,19 @@
+/**
+ * Profile Command - сохранение профиля (имя, язык, настройки стола по умолчанию)
+ */
+
+import { SimpleCommand } from "../core/PureMVC";
+import { Notification } from "../core/PureMVC";
+import { ProxyNames } from "../constants/ProxyNames";
+import { AuthProxy } from "../model/proxy/AuthProxy";
+import { ProfilePatch } from "../types/GameTypes";
+
+export class ProfileCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    if (!authProxy) return;
+
+    const patch: ProfilePatch = notification.body || {};
+    authProxy.updateProfile(patch);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Replay Commands - загрузка журнала партии и шаги по нему
+ */
+
+import { SimpleCommand } from "../core/PureMVC";
+import { Notification } from "../core/PureMVC";
+import { ProxyNames } from "../constants/ProxyNames";
+import { ReplayProxy } from "../model/proxy/ReplayProxy";
+
+export class ReplayCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const replayProxy = this.facade?.retrieveProxy(ProxyNames.REPLAY_PROXY) as ReplayProxy;
+    if (!replayProxy) return;
+
+    const gameId = String(notification.body?.gameId || "").trim();
+    if (gameId) {
+      replayProxy.loadReplay(gameId);
+    }
+  }
+}
+
+export class ReplayStepCommand extends SimpleCommand {
+  execute(notification: Notification): void {
+    const replayProxy = this.facade?.retrieveProxy(ProxyNames.REPLAY_PROXY) as ReplayProxy;
+    if (!replayProxy) return;
+
+    const { delta, seq } = notification.body || {};
+    if (typeof seq === "number") {
+      replayProxy.seek(seq);
+    } else {
+      replayProxy.step(typeof delta === "number" ? delta : 1);
+    }
+  }
+}
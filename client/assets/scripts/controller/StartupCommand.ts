@@ -9,6 +9,8 @@ import { ProxyNames } from "../constants/ProxyNames";
 import { AuthProxy } from "../model/proxy/AuthProxy";
 import { GameProxy } from "../model/proxy/GameProxy";
 import { WebSocketProxy } from "../model/proxy/WebSocketProxy";
+import { LobbyProxy } from "../model/proxy/LobbyProxy";
+import { ReplayProxy } from "../model/proxy/ReplayProxy";
 
 export class StartupCommand extends SimpleCommand {
   execute(notification: Notification): void {
@@ -16,14 +18,18 @@ export class StartupCommand extends SimpleCommand {
     this.facade?.registerProxy(new AuthProxy());
     this.facade?.registerProxy(new GameProxy());
     this.facade?.registerProxy(new WebSocketProxy());
+    this.facade?.registerProxy(new LobbyProxy());
+    this.facade?.registerProxy(new ReplayProxy());
 
     // Устанавливаем API URL из конфига или окружения
     const apiBaseUrl = (window as any).API_BASE_URL || "";
     const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
     const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    const replayProxy = this.facade?.retrieveProxy(ProxyNames.REPLAY_PROXY) as ReplayProxy;
     
     if (authProxy) authProxy.setApiBaseUrl(apiBaseUrl);
     if (gameProxy) gameProxy.setApiBaseUrl(apiBaseUrl);
+    if (replayProxy) replayProxy.setApiBaseUrl(apiBaseUrl);
 
     console.log("Application started");
   }
@@ -6,12 +6,23 @@ import { Facade } from "./PureMVC";
 import { Notifications } from "../constants/Notifications";
 import { StartupCommand } from "../controller/StartupCommand";
 import { AuthCommand } from "../controller/AuthCommand";
-import { MatchmakingCommand } from "../controller/MatchmakingCommand";
+import { MatchmakingCommand, MatchmakingCancelCommand } from "../controller/MatchmakingCommand";
 import { WebSocketConnectCommand } from "../controller/WebSocketCommand";
+import {
+  CreateRoomCommand,
+  JoinRoomCommand,
+  ReadyCommand,
+  SpectateCommand,
+  StartGameCommand,
+} from "../controller/PrivateRoomCommand";
+import { ReplayCommand, ReplayStepCommand } from "../controller/ReplayCommand";
+import { PracticeCommand } from "../controller/PracticeCommand";
+import { ProfileCommand } from "../controller/ProfileCommand";
 import {
   AttackCommand,
   DefendCommand,
   TransferCommand,
+  TransferShowCommand,
   TakeCommand,
   BeatCommand,
   PassCommand,
@@ -33,11 +44,22 @@ export class ApplicationFacade extends Facade {
     // Регистрируем команды
     this.registerCommand(Notifications.STARTUP, StartupCommand);
     this.registerCommand(Notifications.AUTH_REQUEST, AuthCommand);
+    this.registerCommand(Notifications.PROFILE_UPDATE_REQUEST, ProfileCommand);
     this.registerCommand(Notifications.MATCHMAKING_REQUEST, MatchmakingCommand);
+    this.registerCommand(Notifications.MATCHMAKING_CANCEL_REQUEST, MatchmakingCancelCommand);
+    this.registerCommand(Notifications.CREATE_ROOM_REQUEST, CreateRoomCommand);
+    this.registerCommand(Notifications.JOIN_ROOM_REQUEST, JoinRoomCommand);
+    this.registerCommand(Notifications.START_GAME_REQUEST, StartGameCommand);
+    this.registerCommand(Notifications.READY_REQUEST, ReadyCommand);
+    this.registerCommand(Notifications.SPECTATE_REQUEST, SpectateCommand);
+    this.registerCommand(Notifications.PRACTICE_REQUEST, PracticeCommand);
+    this.registerCommand(Notifications.REPLAY_REQUEST, ReplayCommand);
+    this.registerCommand(Notifications.REPLAY_STEP_REQUEST, ReplayStepCommand);
     this.registerCommand(Notifications.WS_CONNECT, WebSocketConnectCommand);
     this.registerCommand(Notifications.ATTACK_REQUEST, AttackCommand);
     this.registerCommand(Notifications.DEFEND_REQUEST, DefendCommand);
     this.registerCommand(Notifications.TRANSFER_REQUEST, TransferCommand);
+    this.registerCommand(Notifications.TRANSFER_SHOW_REQUEST, TransferShowCommand);
     this.registerCommand(Notifications.TAKE_REQUEST, TakeCommand);
     this.registerCommand(Notifications.BEAT_REQUEST, BeatCommand);
     this.registerCommand(Notifications.PASS_REQUEST, PassCommand);
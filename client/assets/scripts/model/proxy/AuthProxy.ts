@@ -5,13 +5,22 @@
 import { Proxy } from "../../core/PureMVC";
 import { ProxyNames } from "../../constants/ProxyNames";
 import { Notifications } from "../../constants/Notifications";
-import { AuthResponse } from "../../types/GameTypes";
+import { AuthResponse, LinkResponse, MeResponse, ProfilePatch, RatingInfo, UserProfile } from "../../types/GameTypes";
+
+// Refresh-токен переживает перезагрузку страницы: иначе гость теряет аккаунт,
+// а Mini App после перезагрузки WebView получает тот же initData, который сервер повторно не принимает
+const REFRESH_TOKEN_KEY = "durak_refresh_token";
 
 export class AuthProxy extends Proxy {
   public static NAME = ProxyNames.AUTH_PROXY;
 
   private sessionToken: string = "";
+  private refreshToken: string = "";
+  private expiresAt: number = 0;
+  private refreshing: Promise<boolean> | null = null;
   private user: any = null;
+  private ratings: RatingInfo[] = [];
+  private profile: UserProfile | null = null;
   private apiBaseUrl: string = "";
 
   constructor() {
@@ -32,28 +41,59 @@ export class AuthProxy extends Proxy {
     return this.user;
   }
 
+  getRatings(): RatingInfo[] {
+    return this.ratings;
+  }
+
+  getProfile(): UserProfile | null {
+    return this.profile;
+  }
+
+  // Mini App: сначала восстанавливаем сессию после перезагрузки, initData - только при новом запуске
   async authenticate(initData: string): Promise<void> {
+    if (!this.refreshToken) this.refreshToken = this.loadStoredRefreshToken();
+    if (this.refreshToken && (await this.refresh())) {
+      this.onLoggedIn();
+      return;
+    }
+    await this.login("/api/auth/telegram", { initData });
+  }
+
+  // Telegram Login Widget (обычный браузер): payload из колбэка data-onauth
+  async authenticateWidget(widget: Record<string, unknown>): Promise<void> {
+    await this.login("/api/auth/widget", widget);
+  }
+
+  // Гость: сначала пробуем восстановить сохранённую сессию, иначе заводим новый аккаунт
+  async authenticateGuest(): Promise<void> {
+    if (!this.refreshToken) this.refreshToken = this.loadStoredRefreshToken();
+    if (this.refreshToken && (await this.refresh())) {
+      this.onLoggedIn();
+      return;
+    }
+    await this.login("/api/auth/guest", {});
+  }
+
+  private async login(path: string, body: any): Promise<void> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/api/auth/telegram`, {
+      const response = await fetch(`${this.apiBaseUrl}${path}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ initData }),
+        body: JSON.stringify(body),
       });
 
       const data: AuthResponse = await response.json();
 
       if (data.ok && data.sessionToken) {
-        this.sessionToken = data.sessionToken;
-        this.user = data.user;
-        this.sendNotification(Notifications.AUTH_SUCCESS, {
-          sessionToken: this.sessionToken,
-          user: this.user,
-        });
+        this.setTokens(data);
+        this.onLoggedIn();
       } else {
         this.sendNotification(Notifications.AUTH_FAILED, {
           error: data.error || "Authentication failed",
+          code: data.code,
+          relaunch: data.relaunch,
         });
       }
     } catch (error: any) {
@@ -63,16 +103,214 @@ export class AuthProxy extends Proxy {
     }
   }
 
-  async authenticateWithTelegram(): Promise<void> {
-    // Получаем initData из Telegram WebApp
+  // Выбор способа входа по окружению: Mini App -> initData, браузер с виджетом -> widget, иначе гость
+  async authenticateWithTelegram(widget?: Record<string, unknown>): Promise<void> {
     const initData = (window as any).Telegram?.WebApp?.initData || "";
-    if (!initData) {
-      this.sendNotification(Notifications.AUTH_FAILED, {
-        error: "Telegram WebApp not available",
-      });
+    if (initData) {
+      await this.authenticate(initData);
+      return;
+    }
+    const widgetData = widget || (window as any).TELEGRAM_LOGIN_DATA;
+    if (widgetData) {
+      await this.authenticateWidget(widgetData);
       return;
     }
-    await this.authenticate(initData);
+    await this.authenticateGuest();
+  }
+
+  // Привязка гостевого аккаунта к Telegram: история и рейтинг остаются на гостевом id
+  async linkTelegram(payload: { initData?: string; widget?: Record<string, unknown> }): Promise<boolean> {
+    if (!this.sessionToken || !this.isGuest()) return false;
+    try {
+      await this.ensureFreshSession();
+      const response = await fetch(`${this.apiBaseUrl}/api/auth/link`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.sessionToken}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data: LinkResponse = await response.json();
+      this.sendNotification(Notifications.SHOW_MESSAGE, {
+        message: data.ok ? "Аккаунт привязан к Telegram" : data.error || "Не удалось привязать аккаунт",
+        type: data.ok ? "info" : "error",
+      });
+      if (data.ok) this.loadProfile();
+      return !!data.ok;
+    } catch (error) {
+      console.error("Failed to link account:", error);
+      return false;
+    }
+  }
+
+  isGuest(): boolean {
+    return String(this.user?.id ?? "").startsWith("guest:");
+  }
+
+  hasStoredSession(): boolean {
+    return !!this.loadStoredRefreshToken();
+  }
+
+  private onLoggedIn(): void {
+    this.sendNotification(Notifications.AUTH_SUCCESS, {
+      sessionToken: this.sessionToken,
+      user: this.user,
+    });
+    this.loadProfile();
+  }
+
+  private setTokens(data: AuthResponse): void {
+    this.sessionToken = data.sessionToken || "";
+    this.refreshToken = data.refreshToken || "";
+    this.expiresAt = data.expiresAt || 0;
+    if (data.user) this.user = data.user;
+    this.storeRefreshToken(this.refreshToken);
+  }
+
+  // Mini App: sessionStorage - живёт до закрытия приложения, новый запуск и так приносит свежий initData
+  private tokenStorage(): Storage | undefined {
+    return (window as any).Telegram?.WebApp?.initData ? window.sessionStorage : window.localStorage;
+  }
+
+  private loadStoredRefreshToken(): string {
+    try {
+      return this.tokenStorage()?.getItem(REFRESH_TOKEN_KEY) || "";
+    } catch {
+      return "";
+    }
+  }
+
+  private storeRefreshToken(token: string): void {
+    try {
+      if (token) this.tokenStorage()?.setItem(REFRESH_TOKEN_KEY, token);
+      else this.tokenStorage()?.removeItem(REFRESH_TOKEN_KEY);
+    } catch {}
+  }
+
+  // Меняет refresh-токен на новую пару; параллельные вызовы ждут один запрос
+  refresh(): Promise<boolean> {
+    if (!this.refreshToken) return Promise.resolve(false);
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/auth/refresh`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+      });
+
+      const data: AuthResponse = await response.json();
+      if (data.ok && data.sessionToken) {
+        this.setTokens(data);
+        return true;
+      }
+      // Refresh-токен истёк или уже использован - нужна новая авторизация
+      if (response.status === 401) {
+        this.clear();
+        this.sendNotification(Notifications.AUTH_FAILED, {
+          error: data.error || "Session expired",
+        });
+      }
+      return false;
+    } catch (error) {
+      console.error("Failed to refresh session:", error);
+      return false;
+    }
+  }
+
+  // Обновляет sessionToken заранее, если до истечения осталось меньше минуты.
+  // Access-токен живёт 15 минут, поэтому каждый запрос с авторизацией сначала вызывает этот метод
+  async ensureFreshSession(): Promise<boolean> {
+    if (!this.sessionToken) return false;
+    if (this.expiresAt && this.expiresAt - Date.now() < 60 * 1000) return this.refresh();
+    return true;
+  }
+
+  async loadProfile(): Promise<void> {
+    if (!this.sessionToken) return;
+    try {
+      await this.ensureFreshSession();
+      const response = await fetch(`${this.apiBaseUrl}/api/me`, {
+        headers: {
+          Authorization: `Bearer ${this.sessionToken}`,
+        },
+      });
+
+      const data: MeResponse = await response.json();
+      if (data.ok) {
+        this.profile = data.user || null;
+        this.ratings = data.ratings || [];
+        this.sendNotification(Notifications.PROFILE_LOADED, {
+          user: data.user,
+          ratings: this.ratings,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to load profile:", error);
+    }
+  }
+
+  // Имя, язык и настройки стола по умолчанию
+  async updateProfile(patch: ProfilePatch): Promise<boolean> {
+    if (!this.sessionToken) return false;
+    try {
+      await this.ensureFreshSession();
+      const response = await fetch(`${this.apiBaseUrl}/api/me`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.sessionToken}`,
+        },
+        body: JSON.stringify(patch),
+      });
+
+      const data: MeResponse = await response.json();
+      if (!data.ok) {
+        this.sendNotification(Notifications.SHOW_MESSAGE, {
+          message: data.error || "Не удалось сохранить профиль",
+          type: "error",
+        });
+        return false;
+      }
+      this.profile = data.user || this.profile;
+      this.sendNotification(Notifications.PROFILE_LOADED, {
+        user: this.profile,
+        ratings: this.ratings,
+      });
+      return true;
+    } catch (error) {
+      console.error("Failed to update profile:", error);
+      return false;
+    }
+  }
+
+  // Отзывает сессию на сервере (вместе с refresh-токеном) и забывает токены локально
+  async logout(): Promise<void> {
+    if (this.sessionToken) {
+      try {
+        await this.ensureFreshSession();
+        await fetch(`${this.apiBaseUrl}/api/auth/logout`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.sessionToken}`,
+          },
+        });
+      } catch (error) {
+        console.error("Failed to log out:", error);
+      }
+    }
+    this.clear();
   }
 
   isAuthenticated(): boolean {
@@ -81,6 +319,11 @@ export class AuthProxy extends Proxy {
 
   clear(): void {
     this.sessionToken = "";
+    this.refreshToken = "";
+    this.expiresAt = 0;
+    this.storeRefreshToken("");
     this.user = null;
+    this.profile = null;
+    this.ratings = [];
   }
 }
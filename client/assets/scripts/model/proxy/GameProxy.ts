@@ -5,13 +5,17 @@
 import { Proxy } from "../../core/PureMVC";
 import { ProxyNames } from "../../constants/ProxyNames";
 import { Notifications } from "../../constants/Notifications";
-import { GameState, MatchmakingResponse, RoomConfig } from "../../types/GameTypes";
+import { BotLevel, GameState, MatchmakingResponse, RoomConfig, RoomResponse } from "../../types/GameTypes";
+import { GameConfig } from "../../config/GameConfig";
+import { AuthProxy } from "./AuthProxy";
 
 export class GameProxy extends Proxy {
   public static NAME = ProxyNames.GAME_PROXY;
 
   private gameState: GameState | null = null;
   private apiBaseUrl: string = "";
+  private pollTimer: any = null;
+  private queued: boolean = false;
 
   constructor() {
     super(GameProxy.NAME);
@@ -41,7 +45,7 @@ export class GameProxy extends Proxy {
   }
 
   async requestMatchmaking(config: RoomConfig): Promise<void> {
-    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as any;
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
     if (!authProxy || !authProxy.isAuthenticated()) {
       this.sendNotification(Notifications.MATCHMAKING_FAILED, {
         error: "Not authenticated",
@@ -50,6 +54,7 @@ export class GameProxy extends Proxy {
     }
 
     try {
+      await authProxy.ensureFreshSession();
       const response = await fetch(`${this.apiBaseUrl}/api/matchmaking`, {
         method: "POST",
         headers: {
@@ -60,23 +65,181 @@ export class GameProxy extends Proxy {
       });
 
       const data: MatchmakingResponse = await response.json();
+      this.handleMatchmakingResponse(data);
+    } catch (error: any) {
+      this.stopWatching();
+      this.sendNotification(Notifications.MATCHMAKING_FAILED, {
+        error: error.message || "Network error",
+      });
+    }
+  }
+
+  async cancelMatchmaking(): Promise<void> {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    this.stopWatching();
+    if (!authProxy || !authProxy.isAuthenticated()) return;
+
+    try {
+      await authProxy.ensureFreshSession();
+      const response = await fetch(`${this.apiBaseUrl}/api/matchmaking`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${authProxy.getSessionToken()}`,
+        },
+      });
+
+      const data: MatchmakingResponse = await response.json();
+      this.handleMatchmakingResponse(data);
+    } catch (error: any) {
+      this.sendNotification(Notifications.MATCHMAKING_FAILED, {
+        error: error.message || "Network error",
+      });
+    }
+  }
+
+  private async pollMatchmakingStatus(): Promise<void> {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    if (!authProxy || !authProxy.isAuthenticated()) {
+      this.stopWatching();
+      return;
+    }
+
+    try {
+      await authProxy.ensureFreshSession();
+      const response = await fetch(`${this.apiBaseUrl}/api/matchmaking`, {
+        headers: {
+          Authorization: `Bearer ${authProxy.getSessionToken()}`,
+        },
+      });
+
+      const data: MatchmakingResponse = await response.json();
+      this.handleMatchmakingResponse(data);
+    } catch (error) {
+      // Сетевые ошибки при опросе не фатальны — попробуем на следующем тике
+      console.warn("Matchmaking status poll failed:", error);
+    }
+  }
+
+  private handleMatchmakingResponse(data: MatchmakingResponse): void {
+    if (!data.ok) {
+      this.stopWatching();
+      this.sendNotification(Notifications.MATCHMAKING_FAILED, {
+        error: data.error || "Matchmaking failed",
+      });
+      return;
+    }
+
+    if (data.status === "matched" && data.roomId) {
+      this.stopWatching();
+      this.sendNotification(Notifications.MATCHMAKING_SUCCESS, {
+        roomId: data.roomId,
+        wsUrl: data.wsUrl,
+      });
+    } else if (data.status === "queued") {
+      this.watchQueue();
+      this.sendNotification(Notifications.MATCHMAKING_QUEUED, data);
+      this.sendNotification(Notifications.MATCHMAKING_STATUS, data);
+    } else {
+      // cancelled / idle (например, истёк TTL очереди)
+      this.stopWatching();
+      this.sendNotification(Notifications.MATCHMAKING_CANCELLED, data);
+    }
+  }
+
+  // Lobby WebSocket присылает MATCH_FOUND сам; опрос — только запасной вариант
+  private watchQueue(): void {
+    this.queued = true;
+    const lobbyProxy = this.facade?.retrieveProxy(ProxyNames.LOBBY_PROXY) as any;
+    if (lobbyProxy && lobbyProxy.connect(this.apiBaseUrl)) return;
+    this.startPolling();
+  }
+
+  private stopWatching(): void {
+    this.queued = false;
+    this.stopPolling();
+    const lobbyProxy = this.facade?.retrieveProxy(ProxyNames.LOBBY_PROXY) as any;
+    if (lobbyProxy) lobbyProxy.disconnect();
+  }
+
+  onLobbyMessage(data: MatchmakingResponse): void {
+    if (!this.queued) return;
+    this.handleMatchmakingResponse(data);
+  }
+
+  onLobbyLost(): void {
+    if (this.queued) this.startPolling();
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.pollMatchmakingStatus();
+    }, GameConfig.MATCHMAKING_POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
 
-      if (data.ok) {
-        if (data.status === "matched" && data.roomId) {
-          this.sendNotification(Notifications.MATCHMAKING_SUCCESS, {
-            roomId: data.roomId,
-            wsUrl: data.wsUrl,
-          });
-        } else {
-          this.sendNotification(Notifications.MATCHMAKING_QUEUED);
-        }
+  isMatchmaking(): boolean {
+    return this.queued;
+  }
+
+  async createPrivateRoom(config: RoomConfig): Promise<void> {
+    await this.requestRoom(`${this.apiBaseUrl}/api/rooms`, config, Notifications.ROOM_CREATED);
+  }
+
+  // Тренировка: сервер сразу раздаёт карты, остальные места занимают боты
+  async startPractice(config: RoomConfig, level: BotLevel): Promise<void> {
+    await this.requestRoom(`${this.apiBaseUrl}/api/practice`, { ...config, level }, Notifications.PRACTICE_STARTED);
+  }
+
+  async joinPrivateRoom(code: string): Promise<void> {
+    await this.requestRoom(
+      `${this.apiBaseUrl}/api/rooms/${encodeURIComponent(code)}/join`,
+      undefined,
+      Notifications.ROOM_JOINED
+    );
+  }
+
+  private async requestRoom(url: string, body: any, successNotification: string): Promise<void> {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    if (!authProxy || !authProxy.isAuthenticated()) {
+      this.sendNotification(Notifications.ROOM_FAILED, {
+        error: "Not authenticated",
+      });
+      return;
+    }
+
+    try {
+      await authProxy.ensureFreshSession();
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authProxy.getSessionToken()}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const data: RoomResponse = await response.json();
+
+      if (data.ok && data.roomId) {
+        this.sendNotification(successNotification, {
+          roomId: data.roomId,
+          code: data.code,
+          wsUrl: data.wsUrl,
+        });
       } else {
-        this.sendNotification(Notifications.MATCHMAKING_FAILED, {
-          error: data.error || "Matchmaking failed",
+        this.sendNotification(Notifications.ROOM_FAILED, {
+          error: data.error || "Room request failed",
         });
       }
     } catch (error: any) {
-      this.sendNotification(Notifications.MATCHMAKING_FAILED, {
+      this.sendNotification(Notifications.ROOM_FAILED, {
         error: error.message || "Network error",
       });
     }
@@ -102,6 +265,10 @@ export class GameProxy extends Proxy {
     return this.gameState?.allowed.transfer || false;
   }
 
+  canTransferShow(): boolean {
+    return this.gameState?.allowed.transferShow || false;
+  }
+
   canTake(): boolean {
     return this.gameState?.allowed.take || false;
   }
@@ -113,4 +280,26 @@ export class GameProxy extends Proxy {
   canPass(): boolean {
     return this.gameState?.allowed.pass || false;
   }
+
+  canStart(): boolean {
+    return (this.gameState?.phase === "lobby" && this.gameState?.canStart) || false;
+  }
+
+  isSpectator(): boolean {
+    return !!this.gameState?.spectator;
+  }
+
+  isReady(): boolean {
+    const state = this.gameState;
+    return !!state && (state.ready || []).includes(state.you);
+  }
+
+  // Подобранная комната не собралась: не успевшие выбывают, остальные снова в очереди
+  onRequeued(removed: string[]): void {
+    const you = this.gameState?.you || "";
+    const dropped = removed.includes(you);
+    this.gameState = null;
+    this.sendNotification(Notifications.ROOM_REQUEUED, { removed, dropped });
+    this.handleMatchmakingResponse(dropped ? { ok: true, status: "idle" } : { ok: true, status: "queued" });
+  }
 }
@@ -0,0 +1,109 @@
+/**
+ * Lobby Proxy - push-уведомления матчмейкинга через lobby WebSocket
+ */
+
+import { Proxy } from "../../core/PureMVC";
+import { ProxyNames } from "../../constants/ProxyNames";
+import { Notifications } from "../../constants/Notifications";
+import { LobbyServerMessage } from "../../types/GameTypes";
+import { AuthProxy } from "./AuthProxy";
+
+export class LobbyProxy extends Proxy {
+  public static NAME = ProxyNames.LOBBY_PROXY;
+
+  private ws: WebSocket | null = null;
+  private manualClose: boolean = false;
+
+  constructor() {
+    super(LobbyProxy.NAME);
+  }
+
+  connect(apiBaseUrl: string): boolean {
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return true;
+    }
+
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    if (!authProxy || !authProxy.isAuthenticated()) return false;
+
+    this.manualClose = false;
+
+    try {
+      // http(s)://host -> ws(s)://host/lobby; без базового URL — текущий хост
+      const url = apiBaseUrl
+        ? `${apiBaseUrl.replace(/^http/, "ws")}/lobby`
+        : `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${window.location.host}/lobby`;
+
+      this.ws = new WebSocket(url);
+
+      this.ws.onopen = async () => {
+        await authProxy.ensureFreshSession();
+        this.ws?.send(JSON.stringify({ type: "JOIN", sessionToken: authProxy.getSessionToken() }));
+      };
+
+      this.ws.onmessage = (event) => {
+        try {
+          const message: LobbyServerMessage = JSON.parse(event.data);
+          this.handleMessage(message);
+        } catch (error) {
+          console.error("Failed to parse lobby message:", error);
+        }
+      };
+
+      this.ws.onerror = (error) => {
+        console.error("Lobby WebSocket error:", error);
+      };
+
+      this.ws.onclose = () => {
+        this.ws = null;
+        if (this.manualClose) return;
+
+        // Сокет потерян, а поиск ещё идёт — переходим на опрос статуса
+        const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as any;
+        if (gameProxy) {
+          gameProxy.onLobbyLost();
+        }
+      };
+
+      return true;
+    } catch (error) {
+      console.error("Failed to create lobby WebSocket:", error);
+      this.ws = null;
+      return false;
+    }
+  }
+
+  private handleMessage(message: LobbyServerMessage): void {
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as any;
+    if (!gameProxy) return;
+
+    switch (message.type) {
+      case "MATCH_FOUND":
+        gameProxy.onLobbyMessage({ ok: true, status: "matched", roomId: message.roomId, wsUrl: message.wsUrl });
+        break;
+
+      case "QUEUE":
+        gameProxy.onLobbyMessage({ ...message, ok: true });
+        break;
+
+      case "ERROR":
+        this.sendNotification(Notifications.SHOW_MESSAGE, {
+          message: message.code || "Error",
+          type: "error",
+        });
+        break;
+    }
+  }
+
+  disconnect(): void {
+    this.manualClose = true;
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  isConnected(): boolean {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+}
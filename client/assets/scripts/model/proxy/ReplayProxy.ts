@@ -0,0 +1,244 @@
+/**
+ * Replay Proxy - пошаговый просмотр завершённой партии по журналу событий
+ */
+
+import { Proxy } from "../../core/PureMVC";
+import { ProxyNames } from "../../constants/ProxyNames";
+import { Notifications } from "../../constants/Notifications";
+import { Card, GameEvent, GameState, ReplayResponse, Suit, TablePair } from "../../types/GameTypes";
+
+// Состояние стола, восстановленное из событий (в отличие от STATE, видны все руки)
+interface ReplayTable {
+  order: string[];
+  active: Record<string, boolean>;
+  hands: Record<string, Card[]>;
+  table: TablePair[];
+  trumpCard: Card;
+  deckCount: number;
+  discardCount: number;
+  attacker: string;
+  defender: string;
+  passed: string[];
+  takeDeclared: boolean;
+  finished: boolean;
+  loser: string | null;
+  loserTeam: 0 | 1 | null;
+}
+
+export class ReplayProxy extends Proxy {
+  public static NAME = ProxyNames.REPLAY_PROXY;
+
+  private apiBaseUrl: string = "";
+  private replay: ReplayResponse | null = null;
+  private cursor: number = 0; // сколько событий применено
+  private perspective: string = ""; // чья рука показывается как yourHand
+
+  constructor() {
+    super(ReplayProxy.NAME);
+    this.apiBaseUrl = (window as any).API_BASE_URL || "";
+  }
+
+  setApiBaseUrl(url: string): void {
+    this.apiBaseUrl = url;
+  }
+
+  async loadReplay(gameId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/games/${encodeURIComponent(gameId)}/replay`);
+      const data: ReplayResponse = await response.json();
+      if (!data.ok || !data.events) {
+        this.sendNotification(Notifications.REPLAY_FAILED, { error: data.error || "Replay not found" });
+        return;
+      }
+
+      this.replay = data;
+      this.cursor = 0;
+      this.perspective = data.players?.[0] || "";
+      this.sendNotification(Notifications.REPLAY_LOADED, data);
+      // Сразу показываем раздачу
+      this.step(1);
+    } catch (error: any) {
+      this.sendNotification(Notifications.REPLAY_FAILED, { error: error.message || "Network error" });
+    }
+  }
+
+  step(delta: number): void {
+    if (!this.replay?.events) return;
+    const total = this.replay.events.length;
+    this.cursor = Math.max(1, Math.min(total, this.cursor + delta));
+    this.publish();
+  }
+
+  seek(seq: number): void {
+    this.cursor = 0;
+    this.step(seq);
+  }
+
+  setPerspective(playerId: string): void {
+    this.perspective = playerId;
+    this.publish();
+  }
+
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  getTotal(): number {
+    return this.replay?.events?.length || 0;
+  }
+
+  clear(): void {
+    this.replay = null;
+    this.cursor = 0;
+  }
+
+  private publish(): void {
+    if (!this.replay?.events) return;
+    const events = this.replay.events.slice(0, this.cursor);
+    const table = ReplayProxy.rebuild(events);
+    if (!table) return;
+
+    this.sendNotification(Notifications.REPLAY_STEP, {
+      event: events[events.length - 1],
+      cursor: this.cursor,
+      total: this.replay.events.length,
+      state: this.toGameState(table),
+    });
+  }
+
+  // Назад шагаем пересборкой с начала: журнал короткий, а применять события обратно сложнее
+  static rebuild(events: GameEvent[]): ReplayTable | null {
+    const deal = events[0];
+    if (!deal || deal.type !== "DEAL" || !deal.order || !deal.hands) return null;
+
+    const t: ReplayTable = {
+      order: deal.order.slice(),
+      active: {},
+      hands: {},
+      table: [],
+      trumpCard: deal.trumpCard || "",
+      deckCount: deal.deckCount || 0,
+      discardCount: 0,
+      attacker: deal.attacker || "",
+      defender: deal.defender || "",
+      passed: [],
+      takeDeclared: false,
+      finished: false,
+      loser: null,
+      loserTeam: null,
+    };
+    for (const id of t.order) {
+      t.active[id] = true;
+      t.hands[id] = (deal.hands[id] || []).slice();
+    }
+
+    const removeFrom = (id: string | undefined, card: Card | undefined) => {
+      if (!id || !card || !t.hands[id]) return;
+      const i = t.hands[id].indexOf(card);
+      if (i !== -1) t.hands[id].splice(i, 1);
+    };
+
+    for (const ev of events.slice(1)) {
+      switch (ev.type) {
+        case "ATTACK":
+          removeFrom(ev.by, ev.card);
+          if (ev.card) t.table.push({ a: ev.card, d: null });
+          break;
+        case "DEFEND":
+          removeFrom(ev.by, ev.card);
+          if (ev.card && ev.attackIndex !== undefined && t.table[ev.attackIndex]) {
+            t.table[ev.attackIndex].d = ev.card;
+          }
+          break;
+        case "TRANSFER":
+          removeFrom(ev.by, ev.card);
+          if (ev.card) t.table.push({ a: ev.card, d: null });
+          t.attacker = ev.by || t.attacker;
+          t.defender = ev.defender || t.defender;
+          t.passed = [];
+          t.takeDeclared = false;
+          break;
+        case "TRANSFER_SHOW":
+          // Козырь только показали: стол и руки не меняются
+          t.attacker = ev.by || t.attacker;
+          t.defender = ev.defender || t.defender;
+          t.passed = [];
+          t.takeDeclared = false;
+          break;
+        case "TAKE":
+          t.takeDeclared = true;
+          t.passed = [];
+          break;
+        case "PASS":
+          if (ev.by && !t.passed.includes(ev.by)) t.passed.push(ev.by);
+          break;
+        case "ROUND_END": {
+          const cards = Array.isArray(ev.cards) ? ev.cards : [];
+          if (ev.result === "take" && ev.defender && t.hands[ev.defender]) t.hands[ev.defender].push(...cards);
+          else t.discardCount += cards.length;
+          t.table = [];
+          break;
+        }
+        case "DRAW": {
+          const drawn = ev.cards && !Array.isArray(ev.cards) ? ev.cards : {};
+          for (const [id, cards] of Object.entries(drawn)) {
+            if (t.hands[id]) t.hands[id].push(...cards);
+            t.deckCount -= cards.length;
+          }
+          break;
+        }
+        case "TURN":
+          t.attacker = ev.attacker || t.attacker;
+          t.defender = ev.defender || t.defender;
+          t.passed = [];
+          t.takeDeclared = false;
+          break;
+        case "OUT":
+          if (ev.by) t.active[ev.by] = false;
+          break;
+        case "FINISH":
+          t.finished = true;
+          t.loser = ev.loser ?? null;
+          t.loserTeam = ev.loserTeam ?? null;
+          break;
+      }
+    }
+    return t;
+  }
+
+  private toGameState(t: ReplayTable): GameState {
+    const you = this.perspective || t.order[0];
+    // Команды не пишутся в журнал: напарники сидят через одного, как при раздаче
+    const config = this.replay!.config!;
+    const teams = config.teams ? Object.fromEntries(t.order.map((id, i) => [id, (i % 2) as 0 | 1])) : null;
+    return {
+      roomId: this.replay?.gameId || "",
+      phase: t.finished ? "finished" : "playing",
+      config,
+      players: t.order,
+      you,
+      attacker: t.attacker,
+      defender: t.defender,
+      trumpSuit: t.trumpCard.charAt(0) as Suit,
+      trumpCard: t.trumpCard,
+      deckCount: t.deckCount,
+      yourHand: (t.hands[you] || []).slice(),
+      others: t.order
+        .filter((id) => id !== you)
+        .map((id) => ({ id, active: t.active[id], count: (t.hands[id] || []).length, team: teams ? teams[id] : null })),
+      table: t.table,
+      discardCount: t.discardCount,
+      takeDeclared: t.takeDeclared,
+      passed: t.passed,
+      allowed: { attack: false, defend: false, transfer: false, transferShow: false, take: false, beat: false, pass: false },
+      moves: { attack: [], defend: [], transfer: [], transferShow: [] },
+      updatedAt: 0,
+      loser: t.loser,
+      teams,
+      loserTeam: t.loserTeam,
+      turnDeadline: null,
+      serverNow: 0,
+      spectator: true,
+    };
+  }
+}
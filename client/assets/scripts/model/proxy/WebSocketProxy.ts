@@ -6,6 +6,7 @@ import { Proxy } from "../../core/PureMVC";
 import { ProxyNames } from "../../constants/ProxyNames";
 import { Notifications } from "../../constants/Notifications";
 import { ClientMessage, ServerMessage } from "../../types/GameTypes";
+import { AuthProxy } from "./AuthProxy";
 
 export class WebSocketProxy extends Proxy {
   public static NAME = ProxyNames.WEBSOCKET_PROXY;
@@ -16,6 +17,8 @@ export class WebSocketProxy extends Proxy {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 1000;
+  private wsUrl: string = "";
+  private manualClose: boolean = false;
 
   constructor() {
     super(WebSocketProxy.NAME);
@@ -28,7 +31,15 @@ export class WebSocketProxy extends Proxy {
     }
 
     this.roomId = roomId;
+    this.wsUrl = wsUrl;
     this.reconnectAttempts = 0;
+    this.manualClose = false;
+    this.open();
+  }
+
+  private open(): void {
+    const roomId = this.roomId;
+    const wsUrl = this.wsUrl;
 
     try {
       // Преобразуем относительный URL в абсолютный
@@ -36,12 +47,18 @@ export class WebSocketProxy extends Proxy {
         ? wsUrl
         : `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${window.location.host}${wsUrl}`;
 
-      this.ws = new WebSocket(url);
+      const ws = new WebSocket(url);
+      this.ws = ws;
 
       this.ws.onopen = () => {
+        const wasReconnecting = this.reconnectAttempts > 0;
         this.isConnected = true;
         this.reconnectAttempts = 0;
         this.sendNotification(Notifications.WS_CONNECTED, { roomId });
+        if (wasReconnecting) {
+          this.sendNotification(Notifications.WS_RECONNECTED, { roomId });
+        }
+        // Сервер держит место за игроком в течение grace-периода, JOIN возвращает его за стол
         this.join();
       };
 
@@ -60,18 +77,27 @@ export class WebSocketProxy extends Proxy {
       };
 
       this.ws.onclose = (event) => {
+        // Старый сокет, уже заменённый новым соединением
+        if (this.ws !== ws) return;
         this.isConnected = false;
         this.sendNotification(Notifications.WS_DISCONNECTED, {
           code: event.code,
           reason: event.reason,
         });
 
+        if (this.manualClose) return;
+
         // Попытка переподключения
         if (this.reconnectAttempts < this.maxReconnectAttempts) {
           this.reconnectAttempts++;
-          setTimeout(() => {
-            this.connect(roomId, wsUrl);
-          }, this.reconnectDelay * this.reconnectAttempts);
+          this.sendNotification(Notifications.WS_RECONNECTING, {
+            roomId,
+            attempt: this.reconnectAttempts,
+            maxAttempts: this.maxReconnectAttempts,
+          });
+          setTimeout(() => this.reopen(), this.reconnectDelay * this.reconnectAttempts);
+        } else {
+          this.sendNotification(Notifications.WS_RECONNECT_FAILED, { roomId });
         }
       };
     } catch (error) {
@@ -80,12 +106,20 @@ export class WebSocketProxy extends Proxy {
     }
   }
 
-  private join(): void {
-    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as any;
+  // Перед переподключением обновляем токен, иначе JOIN упадёт с SESSION_EXPIRED
+  private async reopen(): Promise<void> {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+    if (authProxy) await authProxy.ensureFreshSession();
+    if (!this.manualClose) this.open();
+  }
+
+  private async join(): Promise<void> {
+    const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
     if (!authProxy || !authProxy.isAuthenticated()) {
       console.error("Cannot join: not authenticated");
       return;
     }
+    await authProxy.ensureFreshSession();
 
     const message: ClientMessage = {
       type: "JOIN",
@@ -113,7 +147,47 @@ export class WebSocketProxy extends Proxy {
         });
         break;
 
+      case "PRESENCE":
+        this.sendNotification(Notifications.PLAYER_PRESENCE_CHANGED, {
+          tgId: message.tgId,
+          name: message.name ?? null,
+          status: message.status,
+          graceUntil: message.graceUntil ?? null,
+        });
+        break;
+
+      case "TRUMP_SHOWN":
+        // Перевод показом: карта осталась в руке, но её видят все за столом
+        this.sendNotification(Notifications.SHOW_MESSAGE, {
+          message: `${message.byName || `Игрок ${message.by}`} показал козырь ${message.card} и перевёл на ${message.defenderName || message.defender}`,
+          type: "info",
+        });
+        break;
+
+      case "REQUEUED": {
+        // Проверка готовности не прошла: комната закрыта, сервер вернул нас в очередь
+        this.disconnect();
+        const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as any;
+        if (gameProxy) gameProxy.onRequeued(message.removed || []);
+        break;
+      }
+
       case "ERROR":
+        // Токен истёк прямо во время партии: сервер закрывает сокет, поэтому обновляем токен
+        // и открываем новое соединение (JOIN уйдёт в onopen), место за нами
+        if (message.code === "SESSION_EXPIRED") {
+          const authProxy = this.facade?.retrieveProxy(ProxyNames.AUTH_PROXY) as AuthProxy;
+          if (authProxy) {
+            this.manualClose = true;
+            this.ws?.close();
+            authProxy.refresh().then((ok: boolean) => {
+              if (ok) this.connect(this.roomId, this.wsUrl);
+            });
+            break;
+          }
+        }
+        // Сессия отозвана (выход или бан): сервер закрывает сокет, переподключаться бессмысленно
+        if (message.code === "SESSION_REVOKED") this.disconnect();
         this.sendNotification(Notifications.SHOW_MESSAGE, {
           message: message.detail || message.code || "Error",
           type: "error",
@@ -147,6 +221,10 @@ export class WebSocketProxy extends Proxy {
     this.send({ type: "TRANSFER", card });
   }
 
+  transferShow(card: string): void {
+    this.send({ type: "TRANSFER_SHOW", card });
+  }
+
   take(): void {
     this.send({ type: "TAKE" });
   }
@@ -159,7 +237,20 @@ export class WebSocketProxy extends Proxy {
     this.send({ type: "PASS" });
   }
 
+  ready(): void {
+    this.send({ type: "READY" });
+  }
+
+  startGame(): void {
+    this.send({ type: "START" });
+  }
+
+  leaveRoom(): void {
+    this.send({ type: "LEAVE" });
+  }
+
   disconnect(): void {
+    this.manualClose = true;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
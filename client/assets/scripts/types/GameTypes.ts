@@ -3,16 +3,29 @@
  */
 
 export type Mode = "podkidnoy" | "perevodnoy";
-export type DeckSize = 24 | 36;
+export type DeckSize = 24 | 36 | 52;
+export type MaxPlayers = 2 | 3 | 4 | 5 | 6;
 export type Suit = "S" | "H" | "D" | "C";
-export type Rank = 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14; // J=11 Q=12 K=13 A=14
+export type Rank = 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14; // J=11 Q=12 K=13 A=14; 2-5 только в колоде 52
 export type Card = string; // e.g. "H9", "SJ", "DA"
-export type Phase = "playing" | "finished" | "missing";
+export type Phase = "lobby" | "playing" | "finished" | "missing";
+export type PresenceStatus = "connected" | "disconnected" | "forfeited";
+export type BotLevel = "easy" | "normal" | "hard";
+
+// Домашние правила; сервер всегда присылает полный набор
+export interface RoomRules {
+  firstRoundLimit5: boolean; // в первом отбое не больше 5 карт
+  throwIn: "all" | "neighbors"; // подкидывают все или только соседи отбивающегося
+  roundLimit: "hand" | "six"; // лимит за раунд: карты отбивающегося или ещё и не больше 6
+  transferShow: boolean; // переводной: перевод показом козыря той же масти, раз за раунд
+}
 
 export interface RoomConfig {
   mode: Mode;
   deckSize: DeckSize;
-  maxPlayers: 2 | 3 | 4;
+  maxPlayers: MaxPlayers;
+  rules?: Partial<RoomRules>;
+  teams?: boolean; // 2 на 2, только для 4 игроков: напарники сидят друг напротив друга
 }
 
 export interface TablePair {
@@ -24,17 +37,30 @@ export interface PlayerInfo {
   id: string;
   active: boolean;
   count: number;
+  presence?: PresenceStatus;
+  bot?: BotLevel | null; // серверный бот (id вида bot:<level>:...)
+  team?: 0 | 1 | null; // командная игра: номер команды
+  name?: string | null; // отображаемое имя; null, пока игрок не зашёл в комнату (и у ботов)
 }
 
 export interface AllowedActions {
   attack: boolean;
   defend: boolean;
   transfer: boolean;
+  transferShow: boolean;
   take: boolean;
   beat: boolean;
   pass: boolean;
 }
 
+// Точный список ходов от сервера: какими картами можно атаковать, отбить каждую карту стола, перевести
+export interface LegalMoves {
+  attack: Card[];
+  defend: { attackIndex: number; cards: Card[] }[]; // только неотбитые карты стола
+  transfer: Card[];
+  transferShow: Card[]; // козыри, которые можно показать для перевода
+}
+
 export interface GameState {
   roomId: string;
   phase: Phase;
@@ -51,42 +77,216 @@ export interface GameState {
   table: TablePair[];
   discardCount: number;
   takeDeclared: boolean;
+  trumpShown?: Card | null; // козырь, показанный для перевода в этом раунде
   passed: string[];
   allowed: AllowedActions;
+  moves?: LegalMoves;
   updatedAt: number;
   loser: string | null;
+  teams?: Record<string, 0 | 1> | null; // командная игра: команда каждого игрока
+  loserTeam?: 0 | 1 | null; // проигравшая команда (проигрывают оба напарника)
+  turnDeadline: number | null; // ms epoch, когда сервер сделает ход по умолчанию
+  serverNow: number;
+  fairness?: DealFairness;
+  viewers?: number; // сколько зрителей смотрят комнату
+  spectator?: boolean; // вы зритель: руки скрыты, все действия запрещены
+  practice?: boolean; // тренировка с ботами: не сохраняется и не влияет на рейтинг
+  // только в фазе lobby
+  kind?: "private" | "matched";
+  host?: string | null;
+  code?: string | null;
+  canStart?: boolean;
+  ready?: string[];
+  readyDeadline?: number | null; // подобранная комната: кто не нажал READY к этому времени, выбывает
+}
+
+// Commit-reveal раздачи: хеш колоды известен с начала игры, сид раскрывается в конце
+export interface DealFairness {
+  commitment: string | null;
+  seed: string | null;
 }
 
 export interface ClientMessage {
-  type: "JOIN" | "ATTACK" | "DEFEND" | "TRANSFER" | "TAKE" | "BEAT" | "PASS";
+  type:
+    | "JOIN"
+    | "ATTACK"
+    | "DEFEND"
+    | "TRANSFER"
+    | "TRANSFER_SHOW"
+    | "TAKE"
+    | "BEAT"
+    | "PASS"
+    | "READY"
+    | "START"
+    | "LEAVE";
   sessionToken?: string;
   card?: Card;
   attackIndex?: number;
 }
 
 export interface ServerMessage {
-  type: "STATE" | "INFO" | "ERROR";
+  type: "STATE" | "INFO" | "ERROR" | "PRESENCE" | "REQUEUED" | "TRUMP_SHOWN";
   state?: GameState;
   message?: string;
   code?: string;
   detail?: string;
+  tgId?: string;
+  name?: string | null; // PRESENCE: имя игрока, null - ещё не известно
+  status?: PresenceStatus;
+  since?: number;
+  graceUntil?: number | null;
+  removed?: string[]; // REQUEUED: игроки, не подтвердившие готовность
+  by?: string; // TRUMP_SHOWN: кто показал козырь
+  byName?: string | null;
+  card?: Card;
+  defender?: string;
+  defenderName?: string | null;
+}
+
+export interface LobbyServerMessage {
+  type: "MATCH_FOUND" | "QUEUE" | "ERROR";
+  roomId?: string;
+  wsUrl?: string;
+  status?: "queued" | "idle";
+  position?: number;
+  queueSize?: number;
+  needPlayers?: number;
+  waitedSec?: number;
+  estimatedWaitSec?: number | null;
+  code?: string;
 }
 
 export interface AuthResponse {
   ok: boolean;
   sessionToken?: string;
+  refreshToken?: string;
+  expiresAt?: number; // когда истекает sessionToken (ms)
   user?: {
     id: string;
     first_name?: string;
     username?: string;
   };
   error?: string;
+  code?: string; // INITDATA_EXPIRED / INITDATA_REPLAYED / LOGIN_EXPIRED / LOGIN_REPLAYED
+  relaunch?: {
+    url: string | null; // ссылка t.me на WebApp, если сервер её знает
+    hint: string;
+  };
+}
+
+export interface LinkResponse {
+  ok: boolean;
+  id?: string; // гостевой id, под которым аккаунт играет и дальше
+  telegramId?: string;
+  error?: string;
+  code?: string; // NOT_A_GUEST / TELEGRAM_ID_IN_USE / ALREADY_LINKED
+}
+
+export interface RatingInfo {
+  mode: Mode;
+  deckSize: DeckSize;
+  rating: number;
+  games: number;
+}
+
+export interface UserProfile {
+  id: string;
+  first_name: string;
+  username: string;
+  displayName: string; // выбранное имя, иначе имя из Telegram
+  customName: string | null; // только выбранное через PATCH /api/me
+  language: string | null;
+  avatarUrl: string | null; // photo_url из Telegram
+  defaultConfig: RoomConfig | null;
+  guest: boolean;
+}
+
+// null сбрасывает поле, отсутствующий ключ оставляет как есть
+export interface ProfilePatch {
+  displayName?: string | null;
+  language?: string | null;
+  defaultConfig?: RoomConfig | null;
+}
+
+export interface MeResponse {
+  ok: boolean;
+  user?: UserProfile;
+  ratings?: RatingInfo[];
+  error?: string;
+  code?: string; // BAD_DISPLAY_NAME / BAD_LANGUAGE
+}
+
+export interface RoomResponse {
+  ok: boolean;
+  roomId?: string;
+  code?: string;
+  wsUrl?: string;
+  config?: RoomConfig;
+  level?: BotLevel; // только для тренировки
+  practice?: boolean;
+  error?: string;
+}
+
+export type GameEventType =
+  | "DEAL"
+  | "ATTACK"
+  | "DEFEND"
+  | "TRANSFER"
+  | "TRANSFER_SHOW"
+  | "TAKE"
+  | "PASS"
+  | "BEAT"
+  | "ROUND_END"
+  | "DRAW"
+  | "TURN"
+  | "OUT"
+  | "FORFEIT"
+  | "FINISH";
+
+// Событие журнала партии (GET /api/games/:id/replay)
+export interface GameEvent {
+  seq: number;
+  at: number;
+  type: GameEventType;
+  by?: string;
+  auto?: boolean; // ход сделан таймером
+  card?: Card;
+  attackIndex?: number;
+  defender?: string;
+  attacker?: string;
+  result?: "take" | "beat";
+  cards?: Card[] | Record<string, Card[]>; // ROUND_END: карты со стола, DRAW: добор по игрокам
+  order?: string[];
+  hands?: Record<string, Card[]>;
+  trumpCard?: Card;
+  deckCount?: number;
+  loser?: string | null;
+  loserTeam?: 0 | 1 | null; // FINISH командной игры
+}
+
+export interface ReplayResponse {
+  ok: boolean;
+  gameId?: string;
+  config?: RoomConfig;
+  players?: string[];
+  loser?: string | null;
+  rounds?: number;
+  startedAt?: number;
+  finishedAt?: number;
+  events?: GameEvent[];
+  error?: string;
 }
 
 export interface MatchmakingResponse {
   ok: boolean;
-  status?: "queued" | "matched";
+  status?: "queued" | "matched" | "cancelled" | "idle";
   roomId?: string;
   wsUrl?: string;
+  rating?: number;
+  position?: number;
+  queueSize?: number;
+  needPlayers?: number;
+  waitedSec?: number;
+  estimatedWaitSec?: number | null;
   error?: string;
 }
@@ -20,6 +20,10 @@ const SUIT_COLORS: Record<Suit, string> = {
 };
 
 const RANK_NAMES: Record<Rank, string> = {
+  2: "2",
+  3: "3",
+  4: "4",
+  5: "5",
   6: "6",
   7: "7",
   8: "8",
@@ -44,7 +48,7 @@ export function parseCard(card: Card): { suit: Suit; rank: Rank } | null {
   else if (rStr === "A") rank = 14;
   else {
     const n = Number(rStr);
-    if ([6, 7, 8, 9, 10].includes(n)) rank = n as Rank;
+    if (Number.isInteger(n) && n >= 2 && n <= 10 && String(n) === rStr) rank = n as Rank;
   }
   
   if (!rank) return null;
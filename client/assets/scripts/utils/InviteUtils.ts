@@ -0,0 +1,35 @@
+/**
+ * Invite Utilities - ссылки-приглашения в приватную комнату
+ */
+
+import { GameConfig } from "../config/GameConfig";
+
+// Telegram передаёт ?startapp=<code> в WebApp как initDataUnsafe.start_param
+export function buildInviteLink(code: string): string {
+  const bot = GameConfig.TELEGRAM_BOT_USERNAME;
+  const app = GameConfig.TELEGRAM_APP_NAME;
+  if (!bot) return code;
+  return app
+    ? `https://t.me/${bot}/${app}?startapp=${encodeURIComponent(code)}`
+    : `https://t.me/${bot}?startapp=${encodeURIComponent(code)}`;
+}
+
+export function buildShareLink(code: string): string {
+  const text = `Заходи играть в Дурака! Код комнаты: ${code}`;
+  return `https://t.me/share/url?url=${encodeURIComponent(buildInviteLink(code))}&text=${encodeURIComponent(text)}`;
+}
+
+export function shareInvite(code: string): void {
+  const webApp = (window as any).Telegram?.WebApp;
+  const link = buildShareLink(code);
+  if (webApp?.openTelegramLink) {
+    webApp.openTelegramLink(link);
+  } else {
+    window.open(link, "_blank");
+  }
+}
+
+export function getStartParam(): string {
+  const param = (window as any).Telegram?.WebApp?.initDataUnsafe?.start_param || "";
+  return /^[A-Za-z0-9]{4,12}$/.test(param) ? param.toUpperCase() : "";
+}
@@ -60,6 +60,12 @@ export class CardComponent extends cc.Component {
     }
   }
 
+  // Подсветка допустимых ходов: играбельная карта активна, остальные приглушены и не нажимаются
+  setPlayable(playable: boolean): void {
+    this.setSelectable(playable);
+    this.node.opacity = playable ? 255 : 120;
+  }
+
   setSelected(selected: boolean): void {
     this.selected = selected;
     this.updateDisplay();
@@ -2,7 +2,13 @@
  * Player Info Component - информация об игроке
  */
 
-import { PlayerInfo } from "../../types/GameTypes";
+import { BotLevel, PlayerInfo } from "../../types/GameTypes";
+
+const BOT_LEVEL_NAMES: Record<BotLevel, string> = {
+  easy: "лёгкий",
+  normal: "средний",
+  hard: "сложный",
+};
 
 const { ccclass, property } = cc._decorator;
 
@@ -23,13 +29,19 @@ export class PlayerInfoComponent extends cc.Component {
   @property(cc.Node)
   activeIndicator: cc.Node = null!;
 
+  @property(cc.Node)
+  partnerIndicator: cc.Node = null!;
+
   private player: PlayerInfo | null = null;
 
-  setPlayer(player: PlayerInfo, isAttacker: boolean, isDefender: boolean): void {
+  setPlayer(player: PlayerInfo, isAttacker: boolean, isDefender: boolean, isPartner: boolean = false): void {
     this.player = player;
 
     if (this.nameLabel) {
-      this.nameLabel.string = `Игрок ${player.id}`;
+      const offline = player.presence === "disconnected" ? " (нет связи)" : "";
+      this.nameLabel.string = player.bot
+        ? `Бот (${BOT_LEVEL_NAMES[player.bot]})`
+        : `${player.name || `Игрок ${player.id}`}${offline}`;
     }
 
     if (this.cardsCountLabel) {
@@ -47,6 +59,10 @@ export class PlayerInfoComponent extends cc.Component {
     if (this.activeIndicator) {
       this.activeIndicator.active = player.active;
     }
+
+    if (this.partnerIndicator) {
+      this.partnerIndicator.active = isPartner;
+    }
   }
 
   getPlayer(): PlayerInfo | null {
@@ -8,7 +8,9 @@ import { Notifications } from "../../constants/Notifications";
 import { Notification } from "../../core/PureMVC";
 import { ProxyNames } from "../../constants/ProxyNames";
 import { GameProxy } from "../../model/proxy/GameProxy";
-import { GameState } from "../../types/GameTypes";
+import { Card, GameState, LegalMoves } from "../../types/GameTypes";
+
+const NO_MOVES: LegalMoves = { attack: [], defend: [], transfer: [], transferShow: [] };
 
 const { ccclass, property } = cc._decorator;
 
@@ -37,6 +39,21 @@ export class GameMediator extends Mediator {
   @property(cc.Label)
   phaseLabel: cc.Label = null!;
 
+  @property(cc.Label)
+  timerLabel: cc.Label = null!;
+
+  @property(cc.Button)
+  startButton: cc.Button = null!;
+
+  @property(cc.Button)
+  readyButton: cc.Button = null!;
+
+  @property(cc.Label)
+  viewersLabel: cc.Label = null!;
+
+  @property(cc.Label)
+  fairnessLabel: cc.Label = null!;
+
   @property(cc.Prefab)
   cardPrefab: cc.Prefab = null!;
 
@@ -48,6 +65,9 @@ export class GameMediator extends Mediator {
 
   private selectedCard: string | null = null;
   private selectedAttackIndex: number | null = null;
+  private lastRoomId: string = "";
+  private turnDeadline: number | null = null;
+  private clockOffset: number = 0;
 
   constructor() {
     super(GameMediator.NAME);
@@ -60,6 +80,10 @@ export class GameMediator extends Mediator {
       Notifications.CARD_SELECTED,
       Notifications.TABLE_CARD_SELECTED,
       Notifications.MATCHMAKING_SUCCESS,
+      Notifications.ROOM_CREATED,
+      Notifications.ROOM_JOINED,
+      Notifications.PRACTICE_STARTED,
+      Notifications.REPLAY_STEP,
     ];
   }
 
@@ -78,8 +102,14 @@ export class GameMediator extends Mediator {
         this.onTableCardSelected(notification.body?.index);
         break;
       case Notifications.MATCHMAKING_SUCCESS:
+      case Notifications.ROOM_CREATED:
+      case Notifications.ROOM_JOINED:
+      case Notifications.PRACTICE_STARTED:
         this.onMatchmakingSuccess(notification.body);
         break;
+      case Notifications.REPLAY_STEP:
+        this.onReplayStep(notification.body);
+        break;
     }
   }
 
@@ -93,25 +123,93 @@ export class GameMediator extends Mediator {
 
   private updateGameState(state: GameState): void {
     if (!state) return;
+    this.lastRoomId = state.roomId || this.lastRoomId;
+
+    const spectator = !!state.spectator;
+    if (this.startButton) {
+      this.startButton.node.active = state.phase === "lobby" && state.kind === "private" && !spectator;
+      this.startButton.interactable = !!state.canStart;
+    }
+    if (this.readyButton) {
+      this.readyButton.node.active = state.phase === "lobby" && !spectator && !(state.ready || []).includes(state.you);
+    }
+    if (this.actionButtonsContainer) {
+      this.actionButtonsContainer.active = !spectator;
+    }
+    if (this.viewersLabel) {
+      this.viewersLabel.string = state.viewers ? `Зрителей: ${state.viewers}` : "";
+    }
+    if (state.phase === "lobby") {
+      this.updateLobby(state);
+      this.updateTimer(state);
+      return;
+    }
 
-    this.updateHand(state.yourHand);
-    this.updateTable(state.table);
+    this.updateHand(state);
+    this.updateTable(state);
     this.updatePlayers(state);
     this.updateActionButtons(state.allowed);
     this.updateInfo(state);
+    this.updateTimer(state);
+  }
+
+  private updateTimer(state: GameState): void {
+    // Разница часов клиента и сервера, чтобы отсчёт не зависел от локального времени
+    this.clockOffset = state.serverNow ? state.serverNow - Date.now() : 0;
+    // В лобби подобранной комнаты отсчитываем время на READY
+    if (state.phase === "lobby") this.turnDeadline = state.readyDeadline ?? null;
+    else this.turnDeadline = state.phase === "playing" ? state.turnDeadline : null;
+    this.renderTimer();
+  }
+
+  private renderTimer(): void {
+    if (!this.timerLabel) return;
+    if (!this.turnDeadline) {
+      this.timerLabel.string = "";
+      return;
+    }
+    const left = Math.max(0, Math.ceil((this.turnDeadline - (Date.now() + this.clockOffset)) / 1000));
+    this.timerLabel.string = `${left}`;
+  }
+
+  update(dt: number): void {
+    this.renderTimer();
+  }
+
+  private updateLobby(state: GameState): void {
+    this.updatePlayers(state);
+    if (this.phaseLabel) {
+      const ready = `готовы ${(state.ready || []).length}/${state.players.length}`;
+      this.phaseLabel.string =
+        state.kind === "matched"
+          ? `Соперники найдены, ${ready}`
+          : `Комната ${state.code || ""}: ${state.players.length}/${state.config.maxPlayers}, ${ready}`;
+    }
   }
 
-  private updateHand(cards: string[]): void {
+  // Карты, которыми можно атаковать, перевести (в том числе показом) или отбить хоть одну карту стола
+  private isPlayable(moves: LegalMoves, card: Card): boolean {
+    return (
+      moves.attack.includes(card) ||
+      moves.transfer.includes(card) ||
+      moves.transferShow.includes(card) ||
+      moves.defend.some((d) => d.cards.includes(card))
+    );
+  }
+
+  private updateHand(state: GameState): void {
     if (!this.handContainer || !this.cardPrefab) return;
 
     this.handContainer.removeAllChildren();
 
+    const cards = state.yourHand;
+    const moves = state.moves || NO_MOVES;
     cards.forEach((card, index) => {
       const cardNode = cc.instantiate(this.cardPrefab);
       const cardComponent = cardNode.getComponent("CardComponent");
       if (cardComponent) {
         cardComponent.setCard(card);
-        cardComponent.setSelectable(true);
+        cardComponent.setPlayable(this.isPlayable(moves, card));
         cardComponent.onClick = () => {
           this.sendNotification(Notifications.CARD_SELECTED, { card });
         };
@@ -121,11 +219,14 @@ export class GameMediator extends Mediator {
     });
   }
 
-  private updateTable(table: any[]): void {
+  private updateTable(state: GameState): void {
     if (!this.tableContainer || !this.tableCardPrefab) return;
 
     this.tableContainer.removeAllChildren();
 
+    const table = state.table;
+    const moves = state.moves || NO_MOVES;
+
     table.forEach((pair, index) => {
       const pairNode = new cc.Node("TablePair");
       pairNode.setPosition(index * 120 - (table.length - 1) * 60, 0);
@@ -135,7 +236,8 @@ export class GameMediator extends Mediator {
       const attackComponent = attackCard.getComponent("CardComponent");
       if (attackComponent) {
         attackComponent.setCard(pair.a);
-        attackComponent.setSelectable(false);
+        // Выбрать можно только ту карту стола, которую есть чем отбить
+        attackComponent.setSelectable(moves.defend.some((d) => d.attackIndex === index && d.cards.length > 0));
         attackComponent.onClick = () => {
           this.sendNotification(Notifications.TABLE_CARD_SELECTED, { index });
         };
@@ -164,11 +266,14 @@ export class GameMediator extends Mediator {
 
     this.playersContainer.removeAllChildren();
 
+    // Напарник в командной игре: та же команда, что у нас
+    const myTeam = state.teams ? state.teams[state.you] : undefined;
     state.others.forEach((player, index) => {
       const playerNode = cc.instantiate(this.playerInfoPrefab);
       const playerComponent = playerNode.getComponent("PlayerInfoComponent");
       if (playerComponent) {
-        playerComponent.setPlayer(player, state.attacker === player.id, state.defender === player.id);
+        const partner = myTeam !== undefined && player.team === myTeam;
+        playerComponent.setPlayer(player, state.attacker === player.id, state.defender === player.id, partner);
       }
       this.playersContainer.addChild(playerNode);
     });
@@ -184,6 +289,8 @@ export class GameMediator extends Mediator {
         button.getComponent(cc.Button).interactable = allowed.attack;
       } else if (buttonName.includes("defend")) {
         button.getComponent(cc.Button).interactable = allowed.defend;
+      } else if (buttonName.includes("showtrump")) {
+        button.getComponent(cc.Button).interactable = allowed.transferShow;
       } else if (buttonName.includes("transfer")) {
         button.getComponent(cc.Button).interactable = allowed.transfer;
       } else if (buttonName.includes("take")) {
@@ -204,7 +311,25 @@ export class GameMediator extends Mediator {
       this.deckCountLabel.string = `Колода: ${state.deckCount}`;
     }
     if (this.phaseLabel) {
-      this.phaseLabel.string = state.phase === "playing" ? "Игра" : "Завершено";
+      let phase = state.phase === "playing" ? "Игра" : "Завершено";
+      if (state.phase === "finished" && state.teams && state.loserTeam !== null && state.loserTeam !== undefined) {
+        phase += state.spectator
+          ? `: проиграла команда ${state.loserTeam + 1}`
+          : state.teams[state.you] === state.loserTeam
+            ? ": ваша команда проиграла"
+            : ": ваша команда выиграла";
+      }
+      this.phaseLabel.string = state.spectator ? `${phase} (вы зритель)` : phase;
+    }
+    if (this.fairnessLabel) {
+      const fairness = state.fairness;
+      this.fairnessLabel.string = !fairness?.commitment
+        ? ""
+        : state.practice
+          ? "Тренировка: партия не сохраняется"
+          : fairness.seed
+            ? `Сид раздачи: ${fairness.seed.slice(0, 16)}… (/api/games/${state.roomId}/verify)`
+            : `Хеш колоды: ${fairness.commitment.slice(0, 16)}…`;
     }
   }
 
@@ -220,20 +345,39 @@ export class GameMediator extends Mediator {
     const state = gameProxy.getGameState();
     if (!state) return;
 
-    if (state.allowed.attack) {
+    // Ход выбираем по точному списку с сервера: отбиваем выбранную карту стола, иначе переводим,
+    // иначе отбиваем первую карту, которую эта карта бьёт
+    const moves = state.moves || NO_MOVES;
+    const beats = moves.defend.filter((d) => d.cards.includes(card)).map((d) => d.attackIndex);
+    if (moves.attack.includes(card)) {
       this.sendNotification(Notifications.ATTACK_REQUEST, { card });
-    } else if (state.allowed.defend && this.selectedAttackIndex !== null) {
+    } else if (this.selectedAttackIndex !== null && beats.includes(this.selectedAttackIndex)) {
       this.sendNotification(Notifications.DEFEND_REQUEST, {
         attackIndex: this.selectedAttackIndex,
         card,
       });
-    } else if (state.allowed.transfer) {
+    } else if (moves.transfer.includes(card)) {
       this.sendNotification(Notifications.TRANSFER_REQUEST, { card });
+    } else if (beats.length > 0) {
+      this.sendNotification(Notifications.DEFEND_REQUEST, { attackIndex: beats[0], card });
+    } else if (moves.transferShow.includes(card)) {
+      this.sendNotification(Notifications.TRANSFER_SHOW_REQUEST, { card });
     }
   }
 
   private onTableCardSelected(index: number): void {
     this.selectedAttackIndex = index;
+
+    // Подсвечиваем только карты, которые бьют выбранную
+    const gameProxy = this.facade?.retrieveProxy(ProxyNames.GAME_PROXY) as GameProxy;
+    const state = gameProxy?.getGameState();
+    if (!state?.moves) return;
+    const entry = state.moves.defend.find((d) => d.attackIndex === index);
+    if (!entry || !this.handContainer) return;
+    this.handContainer.children.forEach((node: cc.Node) => {
+      const cardComponent = node.getComponent("CardComponent");
+      if (cardComponent) cardComponent.setPlayable(entry.cards.includes(cardComponent.getCard()));
+    });
   }
 
   private onMatchmakingSuccess(data: any): void {
@@ -267,6 +411,13 @@ export class GameMediator extends Mediator {
     }
   }
 
+  // Перевод показом козыря: выбранная карта остаётся в руке
+  onShowTrumpClick(): void {
+    if (this.selectedCard) {
+      this.sendNotification(Notifications.TRANSFER_SHOW_REQUEST, { card: this.selectedCard });
+    }
+  }
+
   onTakeClick(): void {
     this.sendNotification(Notifications.TAKE_REQUEST);
   }
@@ -278,4 +429,34 @@ export class GameMediator extends Mediator {
   onPassClick(): void {
     this.sendNotification(Notifications.PASS_REQUEST);
   }
+
+  private onReplayStep(data: any): void {
+    if (!data?.state) return;
+    this.updateGameState(data.state);
+    if (this.phaseLabel) {
+      this.phaseLabel.string = `Повтор: ${data.cursor}/${data.total} ${data.event?.type || ""}`;
+    }
+  }
+
+  onReplayClick(): void {
+    if (this.lastRoomId) {
+      this.sendNotification(Notifications.REPLAY_REQUEST, { gameId: this.lastRoomId });
+    }
+  }
+
+  onReplayPrevClick(): void {
+    this.sendNotification(Notifications.REPLAY_STEP_REQUEST, { delta: -1 });
+  }
+
+  onReplayNextClick(): void {
+    this.sendNotification(Notifications.REPLAY_STEP_REQUEST, { delta: 1 });
+  }
+
+  onStartClick(): void {
+    this.sendNotification(Notifications.START_GAME_REQUEST);
+  }
+
+  onReadyClick(): void {
+    this.sendNotification(Notifications.READY_REQUEST);
+  }
 }
@@ -6,7 +6,8 @@ import { Mediator } from "../../core/PureMVC";
 import { MediatorNames } from "../../constants/MediatorNames";
 import { Notifications } from "../../constants/Notifications";
 import { Notification } from "../../core/PureMVC";
-import { RoomConfig } from "../../types/GameTypes";
+import { BotLevel, DeckSize, MaxPlayers, RoomConfig, RoomRules, UserProfile } from "../../types/GameTypes";
+import { getStartParam, shareInvite } from "../../utils/InviteUtils";
 
 const { ccclass, property } = cc._decorator;
 
@@ -20,6 +21,27 @@ export class MenuMediator extends Mediator {
   @property(cc.Button)
   matchmakingButton: cc.Button = null!;
 
+  @property(cc.Button)
+  cancelMatchmakingButton: cc.Button = null!;
+
+  @property(cc.Button)
+  createRoomButton: cc.Button = null!;
+
+  @property(cc.Button)
+  joinRoomButton: cc.Button = null!;
+
+  @property(cc.Button)
+  shareButton: cc.Button = null!;
+
+  @property(cc.Button)
+  watchButton: cc.Button = null!;
+
+  @property(cc.Button)
+  practiceButton: cc.Button = null!;
+
+  @property(cc.EditBox)
+  roomCodeEditBox: cc.EditBox = null!;
+
   @property(cc.Dropdown)
   modeDropdown: cc.Dropdown = null!;
 
@@ -29,9 +51,30 @@ export class MenuMediator extends Mediator {
   @property(cc.Dropdown)
   playersDropdown: cc.Dropdown = null!;
 
+  @property(cc.Dropdown)
+  botLevelDropdown: cc.Dropdown = null!;
+
+  @property(cc.Toggle)
+  firstRound5Toggle: cc.Toggle = null!;
+
+  @property(cc.Dropdown)
+  throwInDropdown: cc.Dropdown = null!;
+
+  @property(cc.Dropdown)
+  roundLimitDropdown: cc.Dropdown = null!;
+
+  @property(cc.Toggle)
+  transferShowToggle: cc.Toggle = null!;
+
+  @property(cc.Toggle)
+  teamsToggle: cc.Toggle = null!;
+
   @property(cc.Label)
   statusLabel: cc.Label = null!;
 
+  private roomCode: string = "";
+  private savedConfig: string = ""; // JSON настроек стола, сохранённых в профиле
+
   constructor() {
     super(MenuMediator.NAME);
   }
@@ -40,9 +83,16 @@ export class MenuMediator extends Mediator {
     return [
       Notifications.AUTH_SUCCESS,
       Notifications.AUTH_FAILED,
+      Notifications.PROFILE_LOADED,
       Notifications.MATCHMAKING_SUCCESS,
       Notifications.MATCHMAKING_QUEUED,
+      Notifications.MATCHMAKING_STATUS,
+      Notifications.MATCHMAKING_CANCELLED,
       Notifications.MATCHMAKING_FAILED,
+      Notifications.ROOM_CREATED,
+      Notifications.ROOM_JOINED,
+      Notifications.ROOM_FAILED,
+      Notifications.PRACTICE_STARTED,
     ];
   }
 
@@ -54,15 +104,36 @@ export class MenuMediator extends Mediator {
       case Notifications.AUTH_FAILED:
         this.onAuthFailed(notification.body);
         break;
+      case Notifications.PROFILE_LOADED:
+        this.onProfileLoaded(notification.body?.user);
+        break;
       case Notifications.MATCHMAKING_SUCCESS:
         this.onMatchmakingSuccess();
         break;
       case Notifications.MATCHMAKING_QUEUED:
         this.onMatchmakingQueued();
         break;
+      case Notifications.MATCHMAKING_STATUS:
+        this.onMatchmakingStatus(notification.body);
+        break;
+      case Notifications.MATCHMAKING_CANCELLED:
+        this.onMatchmakingCancelled();
+        break;
       case Notifications.MATCHMAKING_FAILED:
         this.onMatchmakingFailed(notification.body);
         break;
+      case Notifications.ROOM_CREATED:
+        this.onRoomCreated(notification.body);
+        break;
+      case Notifications.ROOM_JOINED:
+        this.onRoomJoined(notification.body);
+        break;
+      case Notifications.ROOM_FAILED:
+        this.updateStatus(`Ошибка: ${notification.body?.error || "Неизвестная ошибка"}`);
+        break;
+      case Notifications.PRACTICE_STARTED:
+        this.updateStatus("Тренировка: игра против ботов началась");
+        break;
     }
   }
 
@@ -73,6 +144,26 @@ export class MenuMediator extends Mediator {
     if (this.matchmakingButton) {
       this.matchmakingButton.node.on("click", this.onMatchmakingClick, this);
     }
+    if (this.cancelMatchmakingButton) {
+      this.cancelMatchmakingButton.node.on("click", this.onCancelMatchmakingClick, this);
+      this.cancelMatchmakingButton.interactable = false;
+    }
+    if (this.createRoomButton) {
+      this.createRoomButton.node.on("click", this.onCreateRoomClick, this);
+    }
+    if (this.joinRoomButton) {
+      this.joinRoomButton.node.on("click", this.onJoinRoomClick, this);
+    }
+    if (this.shareButton) {
+      this.shareButton.node.on("click", this.onShareClick, this);
+      this.shareButton.interactable = false;
+    }
+    if (this.watchButton) {
+      this.watchButton.node.on("click", this.onWatchClick, this);
+    }
+    if (this.practiceButton) {
+      this.practiceButton.node.on("click", this.onPracticeClick, this);
+    }
   }
 
   onRemove(): void {
@@ -82,6 +173,24 @@ export class MenuMediator extends Mediator {
     if (this.matchmakingButton) {
       this.matchmakingButton.node.off("click", this.onMatchmakingClick, this);
     }
+    if (this.cancelMatchmakingButton) {
+      this.cancelMatchmakingButton.node.off("click", this.onCancelMatchmakingClick, this);
+    }
+    if (this.createRoomButton) {
+      this.createRoomButton.node.off("click", this.onCreateRoomClick, this);
+    }
+    if (this.joinRoomButton) {
+      this.joinRoomButton.node.off("click", this.onJoinRoomClick, this);
+    }
+    if (this.shareButton) {
+      this.shareButton.node.off("click", this.onShareClick, this);
+    }
+    if (this.watchButton) {
+      this.watchButton.node.off("click", this.onWatchClick, this);
+    }
+    if (this.practiceButton) {
+      this.practiceButton.node.off("click", this.onPracticeClick, this);
+    }
   }
 
   private onAuthClick(): void {
@@ -90,14 +199,133 @@ export class MenuMediator extends Mediator {
   }
 
   private onMatchmakingClick(): void {
-    const config: RoomConfig = {
+    const config = this.getConfig();
+    this.rememberConfig(config);
+
+    this.sendNotification(Notifications.MATCHMAKING_REQUEST, { config });
+    this.updateStatus("Поиск матча...");
+  }
+
+  private onCreateRoomClick(): void {
+    const config = this.getConfig();
+    this.rememberConfig(config);
+
+    this.sendNotification(Notifications.CREATE_ROOM_REQUEST, { config });
+    this.updateStatus("Создание комнаты...");
+  }
+
+  private onJoinRoomClick(): void {
+    const code = this.roomCodeEditBox ? this.roomCodeEditBox.string.trim().toUpperCase() : "";
+    if (!code) {
+      this.updateStatus("Введите код комнаты");
+      return;
+    }
+    this.sendNotification(Notifications.JOIN_ROOM_REQUEST, { code });
+    this.updateStatus("Вход в комнату...");
+  }
+
+  private onWatchClick(): void {
+    const code = this.roomCodeEditBox ? this.roomCodeEditBox.string.trim().toUpperCase() : "";
+    if (!code) {
+      this.updateStatus("Введите код комнаты");
+      return;
+    }
+    this.sendNotification(Notifications.SPECTATE_REQUEST, { code });
+    this.updateStatus("Подключение зрителем...");
+  }
+
+  // Тренировка с ботами: без очереди и без рейтинга
+  private onPracticeClick(): void {
+    const config = this.getConfig();
+    this.rememberConfig(config);
+
+    this.sendNotification(Notifications.PRACTICE_REQUEST, { config, level: this.getBotLevel() });
+    this.updateStatus("Создание тренировки...");
+  }
+
+  private onShareClick(): void {
+    if (this.roomCode) {
+      shareInvite(this.roomCode);
+    }
+  }
+
+  private onRoomCreated(data: any): void {
+    this.roomCode = data?.code || "";
+    if (this.shareButton) {
+      this.shareButton.interactable = !!this.roomCode;
+    }
+    this.updateStatus(`Комната создана, код: ${this.roomCode}`);
+  }
+
+  private onRoomJoined(data: any): void {
+    this.roomCode = data?.code || "";
+    this.updateStatus(`Вы в комнате ${this.roomCode}`);
+  }
+
+  private onCancelMatchmakingClick(): void {
+    this.sendNotification(Notifications.MATCHMAKING_CANCEL_REQUEST);
+    this.updateStatus("Отмена поиска...");
+  }
+
+  private setSearching(searching: boolean): void {
+    if (this.matchmakingButton) {
+      this.matchmakingButton.interactable = !searching;
+    }
+    if (this.cancelMatchmakingButton) {
+      this.cancelMatchmakingButton.interactable = searching;
+    }
+  }
+
+  // Последние выбранные настройки стола становятся настройками по умолчанию в профиле
+  private rememberConfig(config: RoomConfig): void {
+    const json = JSON.stringify(config);
+    if (json === this.savedConfig) return;
+    this.savedConfig = json;
+    this.sendNotification(Notifications.PROFILE_UPDATE_REQUEST, { defaultConfig: config });
+  }
+
+  private onProfileLoaded(profile: UserProfile | undefined): void {
+    if (!profile) return;
+    this.updateStatus(`Вы вошли как ${profile.displayName}`);
+    if (profile.defaultConfig) {
+      this.savedConfig = JSON.stringify(profile.defaultConfig);
+      this.applyConfig(profile.defaultConfig);
+    }
+  }
+
+  // Обратное к getConfig(): выставляет элементы меню по сохранённым настройкам
+  private applyConfig(config: RoomConfig): void {
+    if (this.modeDropdown) this.modeDropdown.selectedIndex = config.mode === "perevodnoy" ? 1 : 0;
+    if (this.deckSizeDropdown) this.deckSizeDropdown.selectedIndex = config.deckSize === 24 ? 1 : config.deckSize === 52 ? 2 : 0;
+    if (this.playersDropdown) this.playersDropdown.selectedIndex = config.maxPlayers - 2;
+    if (this.teamsToggle) this.teamsToggle.isChecked = !!config.teams;
+    const rules = config.rules;
+    if (!rules) return;
+    if (this.firstRound5Toggle) this.firstRound5Toggle.isChecked = !!rules.firstRoundLimit5;
+    if (this.throwInDropdown) this.throwInDropdown.selectedIndex = rules.throwIn === "neighbors" ? 1 : 0;
+    if (this.roundLimitDropdown) this.roundLimitDropdown.selectedIndex = rules.roundLimit === "six" ? 1 : 0;
+    if (this.transferShowToggle) this.transferShowToggle.isChecked = !!rules.transferShow;
+  }
+
+  private getConfig(): RoomConfig {
+    const maxPlayers = this.getMaxPlayers();
+    return {
       mode: this.getMode(),
       deckSize: this.getDeckSize(),
-      maxPlayers: this.getMaxPlayers(),
+      maxPlayers,
+      rules: this.getRules(),
+      // 2 на 2 бывает только вчетвером
+      teams: maxPlayers === 4 && !!this.teamsToggle && this.teamsToggle.isChecked,
     };
+  }
 
-    this.sendNotification(Notifications.MATCHMAKING_REQUEST, { config });
-    this.updateStatus("Поиск матча...");
+  private getRules(): RoomRules {
+    return {
+      firstRoundLimit5: this.firstRound5Toggle ? this.firstRound5Toggle.isChecked : false,
+      throwIn: this.throwInDropdown && this.throwInDropdown.selectedIndex === 1 ? "neighbors" : "all",
+      roundLimit: this.roundLimitDropdown && this.roundLimitDropdown.selectedIndex === 1 ? "six" : "hand",
+      transferShow: this.transferShowToggle ? this.transferShowToggle.isChecked : false,
+    };
   }
 
   private getMode(): "podkidnoy" | "perevodnoy" {
@@ -106,18 +334,30 @@ export class MenuMediator extends Mediator {
     return index === 1 ? "perevodnoy" : "podkidnoy";
   }
 
-  private getDeckSize(): 24 | 36 {
+  private getDeckSize(): DeckSize {
     if (!this.deckSizeDropdown) return 36;
     const index = this.deckSizeDropdown.selectedIndex;
-    return index === 0 ? 36 : 24;
+    if (index === 1) return 24;
+    if (index === 2) return 52;
+    return 36;
   }
 
-  private getMaxPlayers(): 2 | 3 | 4 {
+  private getMaxPlayers(): MaxPlayers {
     if (!this.playersDropdown) return 2;
     const index = this.playersDropdown.selectedIndex;
     if (index === 0) return 2;
     if (index === 1) return 3;
-    return 4;
+    if (index === 2) return 4;
+    if (index === 3) return 5;
+    return 6;
+  }
+
+  private getBotLevel(): BotLevel {
+    if (!this.botLevelDropdown) return "easy";
+    const index = this.botLevelDropdown.selectedIndex;
+    if (index === 1) return "normal";
+    if (index === 2) return "hard";
+    return "easy";
   }
 
   private updateStatus(text: string): void {
@@ -131,21 +371,52 @@ export class MenuMediator extends Mediator {
     if (this.matchmakingButton) {
       this.matchmakingButton.interactable = true;
     }
+
+    // Открыли по ссылке-приглашению (?startapp=<code>) — сразу садимся за стол
+    const code = getStartParam();
+    if (code) {
+      this.sendNotification(Notifications.JOIN_ROOM_REQUEST, { code });
+      this.updateStatus("Вход в комнату...");
+    }
   }
 
   private onAuthFailed(data: any): void {
+    // initData устарели или уже использованы: повтор не поможет, WebApp нужно открыть заново
+    if (data?.relaunch) {
+      this.updateStatus("Сессия запуска устарела: закройте WebApp и откройте его снова из бота");
+      const webApp = (window as any).Telegram?.WebApp;
+      if (data.relaunch.url && webApp?.openTelegramLink) webApp.openTelegramLink(data.relaunch.url);
+      return;
+    }
     this.updateStatus(`Ошибка: ${data?.error || "Неизвестная ошибка"}`);
   }
 
   private onMatchmakingSuccess(): void {
+    this.setSearching(false);
     this.updateStatus("Матч найден!");
   }
 
   private onMatchmakingQueued(): void {
+    this.setSearching(true);
     this.updateStatus("Ожидание игроков...");
   }
 
+  private onMatchmakingStatus(data: any): void {
+    if (!data?.position) return;
+    let text = `В очереди: ${data.position} из ${data.queueSize}`;
+    if (data.estimatedWaitSec !== null && data.estimatedWaitSec !== undefined) {
+      text += `, ~${data.estimatedWaitSec} с`;
+    }
+    this.updateStatus(text);
+  }
+
+  private onMatchmakingCancelled(): void {
+    this.setSearching(false);
+    this.updateStatus("Поиск отменён");
+  }
+
   private onMatchmakingFailed(data: any): void {
+    this.setSearching(false);
     this.updateStatus(`Ошибка: ${data?.error || "Неизвестная ошибка"}`);
   }
 }
@@ -29,7 +29,16 @@ export class MessageMediator extends Mediator {
   }
 
   listNotificationInterests(): string[] {
-    return [Notifications.SHOW_MESSAGE, Notifications.HIDE_MESSAGE];
+    return [
+      Notifications.SHOW_MESSAGE,
+      Notifications.HIDE_MESSAGE,
+      Notifications.WS_RECONNECTING,
+      Notifications.WS_RECONNECTED,
+      Notifications.WS_RECONNECT_FAILED,
+      Notifications.PLAYER_PRESENCE_CHANGED,
+      Notifications.ROOM_REQUEUED,
+      Notifications.REPLAY_FAILED,
+    ];
   }
 
   handleNotification(notification: Notification): void {
@@ -40,6 +49,32 @@ export class MessageMediator extends Mediator {
       case Notifications.HIDE_MESSAGE:
         this.hideMessage();
         break;
+      case Notifications.WS_RECONNECTING:
+        this.showMessage({
+          message: `Переподключение (${notification.body?.attempt}/${notification.body?.maxAttempts})...`,
+          type: "warning",
+        });
+        break;
+      case Notifications.WS_RECONNECTED:
+        this.showMessage({ message: "Соединение восстановлено", type: "info" });
+        break;
+      case Notifications.WS_RECONNECT_FAILED:
+        this.showMessage({ message: "Не удалось переподключиться", type: "error" });
+        break;
+      case Notifications.PLAYER_PRESENCE_CHANGED:
+        this.showPresence(notification.body);
+        break;
+      case Notifications.REPLAY_FAILED:
+        this.showMessage({ message: `Повтор недоступен: ${notification.body?.error || ""}`, type: "error" });
+        break;
+      case Notifications.ROOM_REQUEUED:
+        this.showMessage({
+          message: notification.body?.dropped
+            ? "Вы не подтвердили готовность, начните поиск заново"
+            : "Соперник не подтвердил готовность, ищем новую игру",
+          type: "info",
+        });
+        break;
     }
   }
 
@@ -75,6 +110,18 @@ export class MessageMediator extends Mediator {
     }
   }
 
+  private showPresence(data: any): void {
+    const who = data?.name || `Игрок ${data?.tgId}`;
+    if (data?.status === "disconnected") {
+      const seconds = data.graceUntil ? Math.max(0, Math.round((data.graceUntil - Date.now()) / 1000)) : 0;
+      this.showMessage({ message: `${who} отключился, ждём ${seconds} с`, type: "info" });
+    } else if (data?.status === "connected") {
+      this.showMessage({ message: `${who} снова в игре`, type: "info" });
+    } else if (data?.status === "forfeited") {
+      this.showMessage({ message: `${who} покинул игру`, type: "info" });
+    }
+  }
+
   private hideMessage(): void {
     if (this.messagePanel) {
       this.messagePanel.active = false;
@@ -3,9 +3,94 @@ CREATE TABLE IF NOT EXISTS users (
   tg_id TEXT NOT NULL UNIQUE,
   first_name TEXT,
   username TEXT,
-  language_code TEXT,
+  language_code TEXT,             -- preferred language; seeded from Telegram, then set via PATCH /api/me
+  display_name TEXT,              -- chosen name shown to other players; NULL = first_name
+  photo_url TEXT,                 -- Telegram avatar
+  default_config_json TEXT,       -- saved default RoomConfig for the menu
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
 
 CREATE INDEX IF NOT EXISTS idx_users_tg_id ON users(tg_id);
+
+CREATE TABLE IF NOT EXISTS games (
+  id TEXT PRIMARY KEY,            -- roomId
+  mode TEXT NOT NULL,
+  deck_size INTEGER NOT NULL,
+  max_players INTEGER NOT NULL,
+  config_json TEXT NOT NULL,
+  seating_json TEXT NOT NULL,     -- tg_ids in seating order
+  loser_tg_id TEXT,               -- NULL = draw
+  rounds INTEGER NOT NULL,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS game_players (
+  game_id TEXT NOT NULL,
+  tg_id TEXT NOT NULL,
+  seat INTEGER NOT NULL,
+  place INTEGER,                  -- 1 = first out, loser = last, NULL = still holding cards
+  is_loser INTEGER NOT NULL DEFAULT 0,
+  forfeited INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (game_id, tg_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_players_tg_id ON game_players(tg_id);
+
+CREATE TABLE IF NOT EXISTS game_events (
+  game_id TEXT NOT NULL,          -- games.id
+  seq INTEGER NOT NULL,           -- 1-based order within the game
+  at INTEGER NOT NULL,
+  type TEXT NOT NULL,             -- DEAL, ATTACK, DEFEND, TRANSFER, TAKE, PASS, BEAT, ROUND_END, DRAW, TURN, OUT, FORFEIT, FINISH
+  tg_id TEXT,                     -- acting player, NULL for table events
+  data_json TEXT NOT NULL,
+  PRIMARY KEY (game_id, seq)
+);
+
+CREATE TABLE IF NOT EXISTS game_deals (
+  game_id TEXT PRIMARY KEY,       -- games.id
+  deck_size INTEGER NOT NULL,
+  seed TEXT NOT NULL,             -- revealed after the game; deck = seededShuffle(createDeck(deck_size), seed)
+  commitment TEXT NOT NULL        -- sha256(seed:deck) published at the deal
+);
+
+CREATE TABLE IF NOT EXISTS ratings (
+  tg_id TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  deck_size INTEGER NOT NULL,
+  rating REAL NOT NULL,           -- multiplayer Elo, starts at 1500
+  games INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (tg_id, mode, deck_size)
+);
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  token_hash TEXT PRIMARY KEY,    -- sha256 of the opaque token; the token itself is never stored
+  tg_id TEXT NOT NULL,
+  jti TEXT NOT NULL,              -- session id; stays the same across refreshes
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL     -- sliding: a refresh replaces the row with a fresh expiry
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_tg_id ON refresh_tokens(tg_id);
+
+CREATE TABLE IF NOT EXISTS user_links (
+  tg_id TEXT PRIMARY KEY,         -- Telegram id linked to a guest account
+  user_id TEXT NOT NULL UNIQUE,   -- the guest:* id it plays under; history is never moved
+  linked_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS used_init_data (
+  hash TEXT PRIMARY KEY,          -- initData hash: each launch mints a session once
+  query_id TEXT UNIQUE,           -- WebApp launch id, when Telegram sends one
+  tg_id TEXT NOT NULL,
+  used_at INTEGER NOT NULL        -- pruned after INITDATA_MAX_AGE_SEC, auth_date rejects older launches anyway
+);
+
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  jti TEXT PRIMARY KEY,           -- logout / admin revoke; checked on every route and socket JOIN
+  tg_id TEXT NOT NULL,
+  revoked_at INTEGER NOT NULL     -- pruned once every access token of the session has expired
+);
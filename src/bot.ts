@@ -0,0 +1,139 @@
+/**
+ * Server-side bot players. Pure like ./engine: botMove() only picks an action,
+ * RoomDO feeds it through applyAction exactly like a human message.
+ *
+ * Bot seats use ids `bot:<level>:<suffix>`; the level lives in the id, so nothing else is stored.
+ *
+ *  easy   - greedy: always the cheapest card that works, trumps included; never transfers
+ *  normal - keeps trumps out of throw-ins, transfers with a plain card when it can
+ *           (or by showing a trump, where the table allows it)
+ *  hard   - saves trumps: takes instead of spending a high trump while the deck lasts,
+ *           throws in only low plain cards until the deck runs out
+ */
+
+import {
+  allowedActions,
+  applyAction,
+  attackRanksOnly,
+  cardBeats,
+  nextActiveId,
+  parseCard,
+  tableRanks,
+  type Action,
+  type Card,
+  type GameState,
+} from "./engine"
+
+export type BotLevel = "easy" | "normal" | "hard"
+
+export const BOT_LEVELS: BotLevel[] = ["easy", "normal", "hard"]
+
+export function isBotId(id: string): boolean {
+  return id.startsWith("bot:")
+}
+
+export function botLevelOf(id: string): BotLevel | null {
+  if (!isBotId(id)) return null
+  const level = id.split(":")[1] as BotLevel
+  return BOT_LEVELS.includes(level) ? level : "normal"
+}
+
+export function makeBotId(level: BotLevel, suffix: string): string {
+  return `bot:${level}:${suffix}`
+}
+
+// practice tables: the player against 1-3 bots
+export const PRACTICE_MAX_PLAYERS = 4
+
+export function practiceBotIds(level: BotLevel, maxPlayers: number): string[] {
+  const seats = Math.min(Math.max(maxPlayers, 2), PRACTICE_MAX_PLAYERS)
+  return Array.from({ length: seats - 1 }, (_, i) => makeBotId(level, String(i + 1)))
+}
+
+/* --------------------------- card costs --------------------------- */
+
+// trumps are worth more than any plain card
+function cost(card: Card, g: GameState): number {
+  const p = parseCard(card)!
+  return (p.suit === g.trumpSuit ? 100 : 0) + p.rank
+}
+
+function cheapest(cards: Card[], g: GameState): Card | null {
+  let best: Card | null = null
+  for (const c of cards) if (best === null || cost(c, g) < cost(best, g)) best = c
+  return best
+}
+
+function isTrump(card: Card, g: GameState) {
+  return parseCard(card)!.suit === g.trumpSuit
+}
+
+/* --------------------------- decisions --------------------------- */
+
+function defenderMove(g: GameState, botId: string, level: BotLevel): Action | null {
+  const allowed = allowedActions(g, botId)
+  if (g.takeDeclared) return null
+  if (allowed.beat) return { type: "BEAT" }
+  if (!allowed.defend) return null
+
+  const hand = g.hands[botId]
+
+  // transfer with a plain card if the next defender can hold the bigger pile
+  if (allowed.transfer && level !== "easy") {
+    const ranks = attackRanksOnly(g.table)
+    const next = nextActiveId(g.order, g.active, botId, g.teams)
+    const room = g.hands[next]?.length ?? 0
+    // showing a trump costs nothing and leaves the pile as it is
+    const shown = allowed.transferShow
+      ? cheapest(hand.filter((c) => ranks.has(parseCard(c)!.rank) && isTrump(c, g)), g)
+      : null
+    if (shown && room >= g.table.length) return { type: "TRANSFER_SHOW", card: shown }
+    const card = cheapest(
+      hand.filter((c) => ranks.has(parseCard(c)!.rank) && !isTrump(c, g)),
+      g
+    )
+    if (card && room > g.table.length) return { type: "TRANSFER", card }
+  }
+
+  const attackIndex = g.table.findIndex((p) => !p.d)
+  const card = cheapest(
+    hand.filter((c) => cardBeats(c, g.table[attackIndex].a, g.trumpSuit)),
+    g
+  )
+  if (!card) return { type: "TAKE" }
+  if (level === "hard" && g.deck.length > 0 && isTrump(card, g) && parseCard(card)!.rank >= 12) {
+    return { type: "TAKE" }
+  }
+  return { type: "DEFEND", attackIndex, card }
+}
+
+function attackerMove(g: GameState, botId: string, level: BotLevel): Action | null {
+  const allowed = allowedActions(g, botId)
+  const hand = g.hands[botId]
+
+  // lead: cheapest card, plain before trump
+  if (g.table.length === 0) return allowed.attack ? { type: "ATTACK", card: cheapest(hand, g)! } : null
+
+  if (allowed.attack && g.table.length < g.roundLimit) {
+    const ranks = tableRanks(g.table)
+    const candidates = hand.filter((c) => {
+      if (!ranks.has(parseCard(c)!.rank)) return false
+      if (level === "easy" || g.deck.length === 0) return true
+      if (isTrump(c, g)) return false
+      return level === "normal" || parseCard(c)!.rank <= 10
+    })
+    const card = cheapest(candidates, g)
+    if (card) return { type: "ATTACK", card }
+  }
+  return allowed.pass ? { type: "PASS" } : null
+}
+
+// next action for a bot seat, or null while it has nothing to do
+export function botMove(g: GameState, botId: string): Action | null {
+  const level = botLevelOf(botId)
+  if (!level || g.phase !== "playing" || !g.active[botId]) return null
+  const action = botId === g.defenderId ? defenderMove(g, botId, level) : attackerMove(g, botId, level)
+  // never hand RoomDO a move the rules would reject
+  if (action && !applyAction(g, botId, action, g.updatedAt).ok) return null
+  return action
+}
@@ -0,0 +1,899 @@
+/**
+ * Durak rules engine: pure functions over GameState (no I/O, no randomness; time comes in as `now`).
+ * RoomDO (src/index.ts) persists and broadcasts around it; bots, replays and tests reuse the same rules.
+ *
+ *  dealGame(roomId, config, players, deck, opts) -> GameState
+ *  applyAction(state, playerId, action, now)     -> { ok: true, state, events } | { ok: false, code }
+ *  applyTimeout(state, now)                      -> default move when the turn clock runs out
+ *  forfeitPlayer(state, playerId, now)           -> seat lost (reconnect grace over)
+ *  allowedActions(state, playerId)               -> what the player may do right now
+ *  legalMoves(state, playerId)                   -> exactly which cards each card action accepts
+ *  isLoser(state, playerId)                      -> lost the game (in team games the whole team does)
+ *  balancedTeams(players) / teamSeating(ids)     -> 2v2: who partners whom, then who sits where
+ *
+ * Inputs are never mutated. Every result carries the events it appended to state.log.
+ */
+
+/* --------------------------- types --------------------------- */
+
+export type Mode = "podkidnoy" | "perevodnoy"
+export type DeckSize = 24 | 36 | 52
+export type MaxPlayers = 2 | 3 | 4 | 5 | 6
+export type Suit = "S" | "H" | "D" | "C"
+export type Rank = 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 // J=11 Q=12 K=13 A=14; 2-5 only in the 52-card deck
+export type Card = string // e.g. "H9", "SJ", "DA"
+export type TablePair = { a: Card; d: Card | null }
+
+// house rules; a missing field means the default below
+export type RoomRules = {
+  firstRoundLimit5: boolean // the first round holds at most 5 attack cards
+  throwIn: "all" | "neighbors" // who may throw in: any attacker, or only the defender's two neighbours
+  roundLimit: "hand" | "six" // attack cards per round: the defender's hand, or also never more than 6
+  transferShow: boolean // perevodnoy: transfer by showing a trump of the attack rank, once per round
+}
+
+export type RoomConfig = {
+  mode: Mode
+  deckSize: DeckSize
+  maxPlayers: MaxPlayers
+  rules?: Partial<RoomRules>
+  teams?: boolean // 2v2, 4 players only: seats 0+2 against 1+3
+}
+
+export type GamePhase = "lobby" | "playing" | "finished"
+
+// ordered record of everything that changed the table; archived to D1 for replays
+export type GameEventType =
+  | "DEAL"
+  | "ATTACK"
+  | "DEFEND"
+  | "TRANSFER"
+  | "TRANSFER_SHOW"
+  | "TAKE"
+  | "PASS"
+  | "BEAT"
+  | "ROUND_END"
+  | "DRAW"
+  | "TURN"
+  | "OUT"
+  | "FORFEIT"
+  | "FINISH"
+
+export type GameEvent = {
+  seq: number // 1-based, no gaps
+  at: number
+  type: GameEventType
+  by?: string // acting player, if any
+  auto?: boolean // applied by the turn timer
+  [k: string]: unknown
+}
+
+export type GameState = {
+  roomId: string
+  config: RoomConfig
+  phase: GamePhase // "lobby" only in the state sent to clients; RoomDO keeps game null until the deal
+
+  order: string[] // seating order
+  active: Record<string, boolean>
+
+  deck: Card[]
+  trumpSuit: Suit
+  trumpCard: Card
+
+  hands: Record<string, Card[]>
+  table: TablePair[]
+  discard: Card[]
+
+  attackerId: string
+  defenderId: string
+
+  roundLimit: number
+  passed: string[]
+  takeDeclared: boolean
+  trumpShown?: Card | null // trump shown for a transfer this round (it stays in the hand)
+
+  loser: string | null // teams: the last one holding cards, null if both partners were left
+  loserTeam?: 0 | 1 | null
+  teams?: Record<string, 0 | 1> // team games only; partners never attack each other
+  finishOrder: string[] // players in the order they got rid of their cards
+  rounds: number
+  startedAt: number
+  updatedAt: number
+
+  turnDeadline: number | null // ms epoch; RoomDO alarm applies a default action when it passes
+
+  seed: string // secret until the game is finished
+  commitment: string // sha256(seed:deck) published at the deal
+
+  log: GameEvent[] // never sent while playing: DEAL and DRAW show hidden cards
+}
+
+export type Action =
+  | { type: "ATTACK"; card: Card }
+  | { type: "DEFEND"; attackIndex: number; card: Card }
+  | { type: "TRANSFER"; card: Card }
+  | { type: "TRANSFER_SHOW"; card: Card }
+  | { type: "TAKE" }
+  | { type: "PASS" }
+  | { type: "BEAT" }
+
+export type ActionResult = { ok: true; state: GameState; events: GameEvent[] } | { ok: false; code: string }
+
+export type AllowedActions = {
+  attack: boolean
+  defend: boolean
+  transfer: boolean
+  transferShow: boolean
+  take: boolean
+  beat: boolean
+  pass: boolean
+}
+
+// every card the matching action would accept right now (same validators as applyAction)
+export type LegalMoves = {
+  attack: Card[]
+  defend: { attackIndex: number; cards: Card[] }[] // one entry per undefended table card
+  transfer: Card[]
+  transferShow: Card[]
+}
+
+type VResult = { ok: true } | { ok: false; code: string }
+
+/* --------------------------- cards --------------------------- */
+
+const SUITS: Suit[] = ["S", "H", "D", "C"]
+const RANKS_52: Rank[] = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]
+const RANKS_36: Rank[] = [6, 7, 8, 9, 10, 11, 12, 13, 14]
+const RANKS_24: Rank[] = [9, 10, 11, 12, 13, 14]
+
+export const HAND_SIZE = 6
+
+export const DEFAULT_RULES: RoomRules = {
+  firstRoundLimit5: false,
+  throwIn: "all",
+  roundLimit: "hand",
+  transferShow: false,
+}
+
+export function rulesOf(cfg: RoomConfig): RoomRules {
+  return { ...DEFAULT_RULES, ...cfg.rules }
+}
+
+export function rankToStr(r: Rank): string {
+  if (r === 11) return "J"
+  if (r === 12) return "Q"
+  if (r === 13) return "K"
+  if (r === 14) return "A"
+  return String(r)
+}
+export function strToRank(s: string): Rank | null {
+  if (s === "J") return 11
+  if (s === "Q") return 12
+  if (s === "K") return 13
+  if (s === "A") return 14
+  const n = Number(s)
+  if (Number.isInteger(n) && n >= 2 && n <= 10 && String(n) === s) return n as Rank
+  return null
+}
+export function parseCard(card: Card): { suit: Suit; rank: Rank } | null {
+  if (!card || card.length < 2) return null
+  const suit = card[0] as Suit
+  const rStr = card.slice(1)
+  if (!SUITS.includes(suit)) return null
+  const rank = strToRank(rStr)
+  if (!rank) return null
+  return { suit, rank }
+}
+export function createDeck(deckSize: DeckSize): Card[] {
+  const ranks = deckSize === 24 ? RANKS_24 : deckSize === 52 ? RANKS_52 : RANKS_36
+  const deck: Card[] = []
+  for (const s of SUITS) for (const r of ranks) deck.push(`${s}${rankToStr(r)}`)
+  return deck
+}
+export function sortBySuitThenRank(a: Card, b: Card) {
+  const pa = parseCard(a)!
+  const pb = parseCard(b)!
+  if (pa.suit !== pb.suit) return pa.suit < pb.suit ? -1 : 1
+  return pa.rank - pb.rank
+}
+function removeCard(hand: Card[], card: Card): boolean {
+  const idx = hand.indexOf(card)
+  if (idx === -1) return false
+  hand.splice(idx, 1)
+  return true
+}
+export function cardBeats(defCard: Card, atkCard: Card, trumpSuit: Suit): boolean {
+  const d = parseCard(defCard)
+  const a = parseCard(atkCard)
+  if (!d || !a) return false
+  if (d.suit === a.suit) return d.rank > a.rank
+  if (d.suit === trumpSuit && a.suit !== trumpSuit) return true
+  return false
+}
+export function tableRanks(table: TablePair[]): Set<Rank> {
+  const set = new Set<Rank>()
+  for (const p of table) {
+    const a = parseCard(p.a)
+    if (a) set.add(a.rank)
+    if (p.d) {
+      const d = parseCard(p.d)
+      if (d) set.add(d.rank)
+    }
+  }
+  return set
+}
+export function attackRanksOnly(table: TablePair[]): Set<Rank> {
+  const set = new Set<Rank>()
+  for (const p of table) {
+    const a = parseCard(p.a)
+    if (a) set.add(a.rank)
+  }
+  return set
+}
+export function isNeedDefense(table: TablePair[]): boolean {
+  return table.some((p) => !p.d)
+}
+export function isFullyDefended(table: TablePair[]): boolean {
+  return table.length > 0 && table.every((p) => !!p.d)
+}
+// with teams: the next active seat on the other team
+export function nextActiveId(
+  order: string[],
+  active: Record<string, boolean>,
+  fromId: string,
+  teams?: Record<string, 0 | 1>
+): string {
+  const n = order.length
+  const start = order.indexOf(fromId)
+  if (start === -1) return order[0]
+  for (let k = 1; k <= n; k++) {
+    const idx = (start + k) % n
+    const id = order[idx]
+    if (active[id] && (!teams || teams[id] !== teams[fromId])) return id
+  }
+  return fromId
+}
+// with teams the defender's partner sits the round out
+export function listAttackers(
+  order: string[],
+  active: Record<string, boolean>,
+  defenderId: string,
+  teams?: Record<string, 0 | 1>
+): string[] {
+  return order.filter((id) => active[id] && id !== defenderId && (!teams || teams[id] !== teams[defenderId]))
+}
+export function isPartner(g: GameState, a: string, b: string): boolean {
+  return !!g.teams && a !== b && g.teams[a] === g.teams[b]
+}
+// attackers who may throw in this round (and so must pass before it can end)
+export function listThrowers(g: GameState): string[] {
+  const attackers = listAttackers(g.order, g.active, g.defenderId, g.teams)
+  if (rulesOf(g.config).throwIn === "all") return attackers
+  const next = nextActiveId(g.order, g.active, g.defenderId)
+  return attackers.filter((id) => id === g.attackerId || id === next)
+}
+export function lowestTrumpRank(hand: Card[], trumpSuit: Suit): Rank | null {
+  let best: Rank | null = null
+  for (const c of hand) {
+    const p = parseCard(c)
+    if (!p) continue
+    if (p.suit !== trumpSuit) continue
+    if (best === null || p.rank < best) best = p.rank
+  }
+  return best
+}
+export function lowestCard(hand: Card[], trumpSuit: Suit): Card | null {
+  // cheapest card to lead with: lowest non-trump, otherwise lowest trump
+  let best: Card | null = null
+  let bestKey = Infinity
+  for (const c of hand) {
+    const p = parseCard(c)
+    if (!p) continue
+    const key = (p.suit === trumpSuit ? 100 : 0) + p.rank
+    if (key < bestKey) {
+      bestKey = key
+      best = c
+    }
+  }
+  return best
+}
+
+/* --------------------------- transactions --------------------------- */
+
+// one engine call = a private copy of the state plus the events it produced
+type Tx = { g: GameState; now: number; events: GameEvent[] }
+
+function begin(state: GameState, now: number): Tx {
+  const g = structuredClone(state)
+  g.log ??= []
+  return { g, now, events: [] }
+}
+
+function emit(tx: Tx, type: GameEventType, data: Omit<GameEvent, "seq" | "at" | "type"> = {}) {
+  const ev: GameEvent = { seq: tx.g.log.length + 1, at: tx.now, type, ...data }
+  tx.g.log.push(ev)
+  tx.events.push(ev)
+}
+
+/* --------------------------- deal --------------------------- */
+
+// matched 2v2: the strongest partners the weakest against the middle two; ids come back partners-first
+export function balancedTeams(players: { id: string; rating: number }[]): string[] {
+  const ids = players
+    .slice()
+    .sort((a, b) => a.rating - b.rating)
+    .map((p) => p.id)
+  return ids.length === 4 ? [ids[0], ids[3], ids[1], ids[2]] : ids
+}
+
+// partners-first (first two against the last two) -> seating order; teams are seat parity, so partners sit opposite
+export function teamSeating(ids: string[]): string[] {
+  return ids.length === 4 ? [ids[0], ids[2], ids[1], ids[3]] : ids
+}
+
+// deck: already shuffled (RoomDO derives it from the seed); deck[0] is the trump card
+export function dealGame(
+  roomId: string,
+  cfg: RoomConfig,
+  players: string[],
+  shuffled: Card[],
+  opts: { seed: string; commitment: string; now: number }
+): GameState {
+  const order = players.slice(0, cfg.maxPlayers)
+  const active: Record<string, boolean> = {}
+  const hands: Record<string, Card[]> = {}
+
+  for (const id of order) {
+    active[id] = true
+    hands[id] = []
+  }
+
+  const deck = shuffled.slice()
+  const trumpCard = deck[0]
+  const trumpSuit = parseCard(trumpCard)!.suit
+
+  for (let i = 0; i < HAND_SIZE; i++) {
+    for (const pid of order) {
+      const c = deck.pop()
+      if (c) hands[pid].push(c)
+    }
+  }
+  for (const pid of order) hands[pid].sort(sortBySuitThenRank)
+
+  let attackerId = order[0]
+  let best: Rank | null = null
+  let bestId: string | null = null
+  for (const pid of order) {
+    const r = lowestTrumpRank(hands[pid], trumpSuit)
+    if (r === null) continue
+    if (best === null || r < best) {
+      best = r
+      bestId = pid
+    }
+  }
+  if (bestId) attackerId = bestId
+
+  // partners sit opposite each other, so seat parity is the team
+  const teams: Record<string, 0 | 1> | undefined =
+    cfg.teams && order.length === 4 ? Object.fromEntries(order.map((id, i) => [id, (i % 2) as 0 | 1])) : undefined
+  const defenderId = nextActiveId(order, active, attackerId, teams)
+
+  const game: GameState = {
+    roomId,
+    config: cfg,
+    phase: "playing",
+    order,
+    active,
+    deck,
+    trumpSuit,
+    trumpCard,
+    hands,
+    table: [],
+    discard: [],
+    attackerId,
+    defenderId,
+    roundLimit: 0,
+    passed: [],
+    takeDeclared: false,
+    trumpShown: null,
+    loser: null,
+    finishOrder: [],
+    ...(teams ? { teams, loserTeam: null } : {}),
+    rounds: 0,
+    startedAt: opts.now,
+    updatedAt: opts.now,
+    turnDeadline: null,
+    seed: opts.seed,
+    commitment: opts.commitment,
+    log: [],
+  }
+  game.roundLimit = roundLimitFor(game, defenderId)
+  const tx: Tx = { g: game, now: opts.now, events: [] }
+  emit(tx, "DEAL", {
+    order,
+    hands: structuredClone(hands),
+    trumpCard,
+    deckCount: deck.length,
+    attacker: attackerId,
+    defender: defenderId,
+    commitment: opts.commitment,
+  })
+
+  return game
+}
+
+/* --------------------------- validation --------------------------- */
+
+function validateAttack(g: GameState, playerId: string, card: Card): VResult {
+  if (!g.active[playerId]) return { ok: false, code: "NOT_ACTIVE" }
+  if (playerId === g.defenderId) return { ok: false, code: "DEFENDER_CANNOT_ATTACK" }
+  if (g.passed.includes(playerId)) return { ok: false, code: "YOU_PASSED" }
+  if (!g.hands[playerId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
+  if (g.table.length >= g.roundLimit) return { ok: false, code: "ROUND_LIMIT" }
+
+  if (g.table.length === 0) {
+    if (playerId !== g.attackerId) return { ok: false, code: "ONLY_MAIN_ATTACKER_STARTS" }
+    return { ok: true }
+  }
+  const notThrower = throwInError(g, playerId)
+  if (notThrower) return { ok: false, code: notThrower }
+
+  const p = parseCard(card)
+  if (!p) return { ok: false, code: "BAD_CARD" }
+  const ranks = tableRanks(g.table)
+  if (!ranks.has(p.rank)) return { ok: false, code: "RANK_NOT_ON_TABLE" }
+  return { ok: true }
+}
+
+function validateDefend(g: GameState, card: Card, attackIndex: number): VResult {
+  if (attackIndex < 0 || attackIndex >= g.table.length) return { ok: false, code: "BAD_ATTACK_INDEX" }
+  const pair = g.table[attackIndex]
+  if (pair.d) return { ok: false, code: "ALREADY_DEFENDED" }
+  if (!g.hands[g.defenderId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
+  if (!cardBeats(card, pair.a, g.trumpSuit)) return { ok: false, code: "DOES_NOT_BEAT" }
+  return { ok: true }
+}
+
+function validateTransfer(g: GameState, card: Card): VResult {
+  if (g.config.mode !== "perevodnoy") return { ok: false, code: "MODE_NOT_PEREVODNOY" }
+  if (g.takeDeclared) return { ok: false, code: "TAKE_ALREADY_DECLARED" }
+  if (g.table.length === 0) return { ok: false, code: "NOTHING_TO_TRANSFER" }
+  if (g.table.some((p) => p.d)) return { ok: false, code: "CANNOT_TRANSFER_AFTER_DEFEND" }
+  if (!g.hands[g.defenderId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
+
+  const p = parseCard(card)
+  if (!p) return { ok: false, code: "BAD_CARD" }
+  const ranks = attackRanksOnly(g.table)
+  if (!ranks.has(p.rank)) return { ok: false, code: "RANK_MUST_MATCH_ATTACK" }
+  return { ok: true }
+}
+
+// the card stays in the hand, so only trumps count and only once per round
+function validateTransferShow(g: GameState, card: Card): VResult {
+  if (!rulesOf(g.config).transferShow) return { ok: false, code: "TRANSFER_SHOW_OFF" }
+  const v = validateTransfer(g, card)
+  if (!v.ok) return v
+  if (parseCard(card)!.suit !== g.trumpSuit) return { ok: false, code: "NOT_A_TRUMP" }
+  if (g.trumpShown) return { ok: false, code: "TRUMP_ALREADY_SHOWN" }
+  return { ok: true }
+}
+
+// why an attacker may not throw in (or pass) this round, if they may not
+function throwInError(g: GameState, playerId: string): string | null {
+  if (!g.active[playerId]) return "NOT_ACTIVE"
+  if (isPartner(g, playerId, g.defenderId)) return "PARTNER_CANNOT_ATTACK"
+  if (rulesOf(g.config).throwIn === "neighbors" && !listThrowers(g).includes(playerId)) return "NEIGHBORS_ONLY"
+  return null
+}
+
+/* --------------------------- round flow --------------------------- */
+
+// how many attack cards the round may hold against this defender
+function roundLimitFor(g: GameState, defenderId: string): number {
+  const rules = rulesOf(g.config)
+  let limit = g.hands[defenderId].length
+  if (rules.roundLimit === "six") limit = Math.min(limit, HAND_SIZE)
+  if (rules.firstRoundLimit5 && g.rounds === 0) limit = Math.min(limit, 5)
+  return limit
+}
+
+function resetRoundVars(g: GameState) {
+  g.passed = []
+  g.takeDeclared = false
+  g.trumpShown = null
+  g.roundLimit = roundLimitFor(g, g.defenderId)
+}
+
+// draw order: attacker -> around -> defender last
+// (attackers seated after the defender draw too, before the defender; stopping at the defender left them short)
+function drawOrderFrom(g: GameState): string[] {
+  const drawOrder: string[] = [g.attackerId]
+  let cur = g.attackerId
+  for (let k = 0; k < g.order.length; k++) {
+    cur = nextActiveId(g.order, g.active, cur)
+    if (drawOrder.includes(cur)) break
+    if (cur !== g.defenderId) drawOrder.push(cur)
+  }
+  drawOrder.push(g.defenderId)
+  return drawOrder
+}
+
+function drawUpTo6(tx: Tx, drawOrder: string[]) {
+  const g = tx.g
+  const drawn: Record<string, Card[]> = {}
+  for (const pid of drawOrder) {
+    const hand = g.hands[pid]
+    while (hand.length < HAND_SIZE && g.deck.length > 0) {
+      const c = g.deck.pop()!
+      hand.push(c)
+      ;(drawn[pid] ??= []).push(c)
+    }
+    hand.sort(sortBySuitThenRank)
+  }
+  if (Object.keys(drawn).length > 0) emit(tx, "DRAW", { cards: drawn })
+}
+
+function pruneOutPlayers(tx: Tx) {
+  const g = tx.g
+  if (g.deck.length > 0) return
+  for (const id of g.order) {
+    if (!g.active[id]) continue
+    if (g.hands[id].length === 0) {
+      g.active[id] = false
+      g.finishOrder.push(id)
+      emit(tx, "OUT", { by: id })
+    }
+  }
+  const alive = g.order.filter((id) => g.active[id])
+  // teams: over once everyone still holding cards is on one side
+  if (g.teams && alive.length > 0 && alive.every((id) => g.teams![id] === g.teams![alive[0]])) {
+    g.phase = "finished"
+    g.loser = alive.length === 1 ? alive[0] : null
+    g.loserTeam = g.teams[alive[0]]
+    emit(tx, "FINISH", { loser: g.loser, loserTeam: g.loserTeam })
+  } else if (alive.length === 1) {
+    g.phase = "finished"
+    g.loser = alive[0]
+    emit(tx, "FINISH", { loser: g.loser })
+  } else if (alive.length === 0) {
+    g.phase = "finished"
+    g.loser = null
+    emit(tx, "FINISH", { loser: null })
+  }
+}
+
+function endRoundTake(tx: Tx) {
+  const g = tx.g
+  g.rounds = (g.rounds ?? 0) + 1
+  const taken: Card[] = []
+  for (const p of g.table) {
+    taken.push(p.a)
+    if (p.d) taken.push(p.d)
+  }
+  emit(tx, "ROUND_END", { result: "take", defender: g.defenderId, cards: taken })
+  g.hands[g.defenderId].push(...taken)
+  g.hands[g.defenderId].sort(sortBySuitThenRank)
+  g.table = []
+
+  drawUpTo6(tx, drawOrderFrom(g))
+
+  const oldDef = g.defenderId
+  const newDef = nextActiveId(g.order, g.active, oldDef)
+  g.defenderId = newDef
+
+  pruneOutPlayers(tx)
+  if (g.phase === "finished") return
+
+  if (g.teams) {
+    // teams: the seat after the taker attacks the next opponent
+    g.attackerId = nextActiveId(g.order, g.active, oldDef)
+    g.defenderId = nextActiveId(g.order, g.active, g.attackerId, g.teams)
+  } else {
+    if (!g.active[g.attackerId]) g.attackerId = nextActiveId(g.order, g.active, g.attackerId)
+    if (!g.active[g.defenderId]) g.defenderId = nextActiveId(g.order, g.active, g.defenderId)
+    if (g.defenderId === g.attackerId) g.defenderId = nextActiveId(g.order, g.active, g.attackerId)
+  }
+
+  resetRoundVars(g)
+  g.updatedAt = tx.now
+  emit(tx, "TURN", { attacker: g.attackerId, defender: g.defenderId })
+}
+
+function endRoundBeat(tx: Tx) {
+  const g = tx.g
+  g.rounds = (g.rounds ?? 0) + 1
+  emit(tx, "ROUND_END", {
+    result: "beat",
+    defender: g.defenderId,
+    cards: g.table.flatMap((p) => (p.d ? [p.a, p.d] : [p.a])),
+  })
+  for (const p of g.table) {
+    g.discard.push(p.a)
+    if (p.d) g.discard.push(p.d)
+  }
+  g.table = []
+
+  drawUpTo6(tx, drawOrderFrom(g))
+
+  let newAtk = g.defenderId
+
+  pruneOutPlayers(tx)
+  if (g.phase === "finished") return
+
+  if (!g.active[newAtk]) newAtk = nextActiveId(g.order, g.active, newAtk)
+
+  g.attackerId = newAtk
+  g.defenderId = nextActiveId(g.order, g.active, newAtk, g.teams)
+  resetRoundVars(g)
+  g.updatedAt = tx.now
+  emit(tx, "TURN", { attacker: g.attackerId, defender: g.defenderId })
+}
+
+// transfer: the defender becomes the main attacker, the next seat defends
+function passDefence(g: GameState): string {
+  const oldDef = g.defenderId
+  const newDef = nextActiveId(g.order, g.active, oldDef, g.teams)
+  g.attackerId = oldDef
+  g.defenderId = newDef
+  g.roundLimit = roundLimitFor(g, newDef)
+  g.passed = []
+  g.takeDeclared = false
+  return newDef
+}
+
+/* --------------------------- actions --------------------------- */
+
+// returns an error code, or null when the action was applied to tx.g
+function step(tx: Tx, playerId: string, action: Action): string | null {
+  const g = tx.g
+
+  switch (action.type) {
+    case "ATTACK": {
+      const card = action.card
+      const v = validateAttack(g, playerId, card)
+      if (!v.ok) return v.code
+      removeCard(g.hands[playerId], card)
+      g.table.push({ a: card, d: null })
+      g.updatedAt = tx.now
+      emit(tx, "ATTACK", { by: playerId, card })
+      return null
+    }
+
+    case "DEFEND": {
+      if (playerId !== g.defenderId) return "ONLY_DEFENDER_CAN_DEFEND"
+      if (g.takeDeclared) return "TAKE_ALREADY_DECLARED"
+
+      const idx = Number(action.attackIndex)
+      if (!Number.isInteger(idx)) return "BAD_ATTACK_INDEX"
+
+      const v = validateDefend(g, action.card, idx)
+      if (!v.ok) return v.code
+
+      removeCard(g.hands[g.defenderId], action.card)
+      g.table[idx].d = action.card
+      g.updatedAt = tx.now
+      emit(tx, "DEFEND", { by: playerId, attackIndex: idx, card: action.card })
+      return null
+    }
+
+    case "TRANSFER": {
+      if (playerId !== g.defenderId) return "ONLY_DEFENDER_CAN_TRANSFER"
+
+      const v = validateTransfer(g, action.card)
+      if (!v.ok) return v.code
+
+      removeCard(g.hands[g.defenderId], action.card)
+      g.table.push({ a: action.card, d: null })
+
+      const newDef = passDefence(g)
+      g.updatedAt = tx.now
+      emit(tx, "TRANSFER", { by: playerId, card: action.card, defender: newDef })
+      return null
+    }
+
+    case "TRANSFER_SHOW": {
+      if (playerId !== g.defenderId) return "ONLY_DEFENDER_CAN_TRANSFER"
+
+      const v = validateTransferShow(g, action.card)
+      if (!v.ok) return v.code
+
+      g.trumpShown = action.card
+      const newDef = passDefence(g)
+      g.updatedAt = tx.now
+      emit(tx, "TRANSFER_SHOW", { by: playerId, card: action.card, defender: newDef })
+      return null
+    }
+
+    case "TAKE": {
+      if (playerId !== g.defenderId) return "ONLY_DEFENDER_CAN_TAKE"
+      if (g.table.length === 0) return "NOTHING_ON_TABLE"
+      g.takeDeclared = true
+      g.passed = []
+      g.updatedAt = tx.now
+      emit(tx, "TAKE", { by: playerId })
+      return null
+    }
+
+    case "PASS": {
+      if (playerId === g.defenderId) return "DEFENDER_CANNOT_PASS"
+      if (g.table.length === 0) return "NOTHING_ON_TABLE"
+      const notThrower = throwInError(g, playerId)
+      if (notThrower) return notThrower
+      const throwers = listThrowers(g)
+
+      if (!g.passed.includes(playerId)) g.passed.push(playerId)
+      g.updatedAt = tx.now
+      emit(tx, "PASS", { by: playerId })
+
+      // if defender declared TAKE and all attackers passed -> end round take
+      const allPassed = throwers.every((id) => g.passed.includes(id))
+      if (g.takeDeclared && allPassed) endRoundTake(tx)
+      return null
+    }
+
+    case "BEAT": {
+      if (playerId !== g.defenderId) return "ONLY_DEFENDER_CAN_BEAT"
+      if (!isFullyDefended(g.table)) return "NOT_FULLY_DEFENDED"
+      if (!listThrowers(g).every((id) => g.passed.includes(id))) return "ATTACKERS_NOT_PASSED"
+
+      emit(tx, "BEAT", { by: playerId })
+      endRoundBeat(tx)
+      return null
+    }
+  }
+
+  return "UNKNOWN_MSG"
+}
+
+export function applyAction(state: GameState, playerId: string, action: Action, now: number): ActionResult {
+  if (state.phase !== "playing") return { ok: false, code: "GAME_NOT_PLAYING" }
+  const tx = begin(state, now)
+  const code = step(tx, playerId, action)
+  if (code) return { ok: false, code }
+  return { ok: true, state: tx.g, events: tx.events }
+}
+
+// default action when nobody moved in time
+export function applyTimeout(state: GameState, now: number): { state: GameState; events: GameEvent[] } {
+  const tx = begin(state, now)
+  const g = tx.g
+  if (g.phase !== "playing") return { state: g, events: [] }
+
+  const attackers = listThrowers(g)
+
+  // table empty -> main attacker leads with the cheapest card
+  if (g.table.length === 0) {
+    const card = lowestCard(g.hands[g.attackerId] || [], g.trumpSuit)
+    if (card && validateAttack(g, g.attackerId, card).ok) {
+      removeCard(g.hands[g.attackerId], card)
+      g.table.push({ a: card, d: null })
+      emit(tx, "ATTACK", { by: g.attackerId, card, auto: true })
+    }
+    g.updatedAt = now
+    return { state: g, events: tx.events }
+  }
+
+  // defender still has to answer -> auto TAKE
+  if (!g.takeDeclared && isNeedDefense(g.table)) {
+    g.takeDeclared = true
+    g.passed = []
+    g.updatedAt = now
+    emit(tx, "TAKE", { by: g.defenderId, auto: true })
+    return { state: g, events: tx.events }
+  }
+
+  // attackers who did not pass -> auto PASS, then close the round
+  for (const id of attackers) {
+    if (g.passed.includes(id)) continue
+    g.passed.push(id)
+    emit(tx, "PASS", { by: id, auto: true })
+  }
+  g.updatedAt = now
+
+  if (g.takeDeclared) endRoundTake(tx)
+  else if (isFullyDefended(g.table)) endRoundBeat(tx)
+  return { state: g, events: tx.events }
+}
+
+// grace window over: an active player loses the game on the spot
+export function forfeitPlayer(
+  state: GameState,
+  playerId: string,
+  now: number
+): { state: GameState; events: GameEvent[] } {
+  const tx = begin(state, now)
+  const g = tx.g
+  emit(tx, "FORFEIT", { by: playerId })
+  if (g.phase === "playing" && g.active[playerId]) {
+    g.phase = "finished"
+    g.loser = playerId
+    if (g.teams) g.loserTeam = g.teams[playerId]
+    g.updatedAt = now
+    emit(tx, "FINISH", g.teams ? { loser: playerId, loserTeam: g.loserTeam } : { loser: playerId })
+  }
+  return { state: g, events: tx.events }
+}
+
+/* --------------------------- queries --------------------------- */
+
+export function allowedActions(g: GameState, playerId: string): AllowedActions {
+  const allowed: AllowedActions = {
+    attack: false,
+    defend: false,
+    transfer: false,
+    transferShow: false,
+    take: false,
+    beat: false,
+    pass: false,
+  }
+  if (g.phase !== "playing" || !g.active[playerId]) return allowed
+
+  const hand = g.hands[playerId] || []
+  const attackers = listThrowers(g)
+
+  if (playerId === g.defenderId) {
+    if (!g.takeDeclared) {
+      allowed.defend = isNeedDefense(g.table)
+      allowed.take = g.table.length > 0
+      if (g.config.mode === "perevodnoy" && g.table.length > 0 && !g.table.some((p) => p.d)) {
+        // defender must have a card with rank matching any attack rank
+        const ranks = attackRanksOnly(g.table)
+        allowed.transfer = hand.some((c) => {
+          const p = parseCard(c)
+          return !!p && ranks.has(p.rank)
+        })
+        allowed.transferShow = hand.some((c) => validateTransferShow(g, c).ok)
+      }
+    }
+    allowed.beat = isFullyDefended(g.table) && attackers.every((id) => g.passed.includes(id))
+    return allowed
+  }
+
+  // main attacker leads; with neighbours-only throw-ins the others sit the round out
+  if (g.table.length > 0 && !attackers.includes(playerId)) return allowed
+
+  const hasPassed = g.passed.includes(playerId)
+  allowed.pass = g.table.length > 0 && !hasPassed
+
+  if (!hasPassed) {
+    if (g.table.length === 0) {
+      allowed.attack = playerId === g.attackerId
+    } else {
+      // can always throw matching ranks on table; and also after TAKE declared
+      const ranks = tableRanks(g.table)
+      allowed.attack = hand.some((c) => {
+        const p = parseCard(c)
+        return !!p && ranks.has(p.rank)
+      })
+      // if defender hasn't declared TAKE and there are undefended cards, UI still may attack (your rule),
+      // so we do NOT forbid it here.
+    }
+  }
+  return allowed
+}
+
+// teams lose together
+export function isLoser(g: GameState, playerId: string): boolean {
+  if (g.teams && g.loserTeam != null) return g.teams[playerId] === g.loserTeam
+  return g.loser === playerId
+}
+
+export function legalMoves(g: GameState, playerId: string): LegalMoves {
+  const moves: LegalMoves = { attack: [], defend: [], transfer: [], transferShow: [] }
+  if (g.phase !== "playing" || !g.active[playerId]) return moves
+
+  const hand = g.hands[playerId] || []
+  if (playerId !== g.defenderId) {
+    moves.attack = hand.filter((c) => validateAttack(g, playerId, c).ok)
+    return moves
+  }
+  if (g.takeDeclared) return moves
+
+  g.table.forEach((p, attackIndex) => {
+    if (p.d) return
+    moves.defend.push({ attackIndex, cards: hand.filter((c) => validateDefend(g, c, attackIndex).ok) })
+  })
+  moves.transfer = hand.filter((c) => validateTransfer(g, c).ok)
+  moves.transferShow = hand.filter((c) => validateTransferShow(g, c).ok)
+  return moves
+}
@@ -1,34 +1,98 @@
 /// <reference types="@cloudflare/workers-types" />
 
 /**
- * Durable / reliable 2-4 player Durak (podkidnoy + perevodnoy) backend
+ * Durable / reliable 2-6 player Durak (podkidnoy + perevodnoy) backend
  * Cloudflare Workers + Durable Objects + D1
  *
  * HTTP:
  *  GET  /mini                      -> mini WebApp UI (for testing)
- *  POST /api/auth/telegram         -> { initData } -> sessionToken
- *  POST /api/matchmaking           -> (auth) { mode, deckSize, maxPlayers } -> queued/matched
- *  WS   /ws/<roomId>               -> gameplay websocket
+ *  POST /api/auth/telegram         -> { initData } -> sessionToken (short-lived) + refreshToken
+ *                                     (stale or already used initData -> INITDATA_EXPIRED / INITDATA_REPLAYED + relaunch hint)
+ *  POST /api/auth/widget           -> Telegram Login Widget payload { id, first_name, ..., auth_date, hash } -> same as above
+ *                                     (stale or already used payload -> LOGIN_EXPIRED / LOGIN_REPLAYED)
+ *  POST /api/auth/guest            -> new anonymous account (`guest:*` id) -> same as above
+ *  POST /api/auth/link             -> (auth, guest) { initData } | { widget } -> attach a Telegram id to the guest account
+ *  POST /api/auth/refresh          -> { refreshToken } -> new sessionToken + rotated refreshToken
+ *  POST /api/auth/logout           -> (auth) revoke this session and its refresh token
+ *  POST /api/admin/users/<tgId>/revoke-sessions -> (ADMIN_TOKEN) revoke every session of a user
+ *  POST /api/matchmaking           -> (auth) { mode, deckSize, maxPlayers, rules?, teams? } -> queued/matched
+ *  GET  /api/matchmaking           -> (auth) status: position, queue size, estimated wait (also a heartbeat)
+ *  DELETE /api/matchmaking         -> (auth) leave the queue
+ *  GET  /api/me                    -> (auth) profile (display name, language, avatar, default room config) + ratings
+ *  PATCH /api/me                   -> (auth) { displayName?, language?, defaultConfig? } -> updated profile
+ *  GET  /api/games/<id>/verify     -> rebuild a finished game's deck from its revealed seed
+ *  GET  /api/games/<id>/replay     -> event log of a finished game (deal, every action, draws, round ends)
+ *  POST /api/rooms                 -> (auth) { mode, deckSize, maxPlayers, rules?, teams? } -> private room + invite code
+ *  POST /api/rooms/<code>/join     -> (auth) take a seat in a private room
+ *  POST /api/practice              -> (auth) { mode, deckSize, maxPlayers, rules?, teams?, level } -> dealt room vs 1-3 bots, unrated
+ *  WS   /ws/<roomId>               -> gameplay websocket (non-seated JOIN = spectator)
+ *  WS   /lobby                     -> matchmaking push: MATCH_FOUND + queue updates
  *  GET  /env-check                 -> check bindings/secrets
  *  GET  /d1-test                   -> D1 sanity check
  *
  * Bindings (wrangler.toml):
  *  [vars] (or secrets)
  *    BOT_TOKEN, APP_SECRET
+ *    ADMIN_TOKEN (optional; enables /api/admin/*)
+ *    INITDATA_MAX_AGE_SEC (optional), WEBAPP_URL (optional; t.me link the client can re-launch)
+ *    MM_BOT_FILL_SEC (optional)
  *  [[d1_databases]]
  *    binding = "DB"
  *  [[durable_objects.bindings]]
  *    name = "MM"   class_name = "MatchmakerDO"
  *  [[durable_objects.bindings]]
  *    name = "ROOM" class_name = "RoomDO"
+ *
+ * Game rules live in ./engine, bot players (`bot:*` seats) in ./bot; both are pure and tested with `npm test`.
+ * RoomDO only persists, broadcasts and runs the clocks.
  */
 
+import {
+  allowedActions,
+  applyAction,
+  applyTimeout,
+  balancedTeams,
+  createDeck,
+  dealGame,
+  DEFAULT_RULES,
+  forfeitPlayer,
+  HAND_SIZE,
+  isLoser,
+  legalMoves,
+  rulesOf,
+  teamSeating,
+  type Action,
+  type Card,
+  type DeckSize,
+  type GameEvent,
+  type GameEventType,
+  type GameState,
+  type MaxPlayers,
+  type Mode,
+  type RoomConfig,
+  type RoomRules,
+} from "./engine"
+import {
+  BOT_LEVELS,
+  botLevelOf,
+  botMove,
+  isBotId,
+  makeBotId,
+  PRACTICE_MAX_PLAYERS,
+  practiceBotIds,
+  type BotLevel,
+} from "./bot"
+
 export interface Env {
   BOT_TOKEN: string
   APP_SECRET: string
+  ADMIN_TOKEN?: string
   DB: D1Database
   MM: DurableObjectNamespace
   ROOM: DurableObjectNamespace
+  MM_BOT_FILL_SEC?: string // queue wait before bots fill the free seats (default 60, "0" = never)
+  INITDATA_MAX_AGE_SEC?: string // initData older than this (by auth_date) is rejected (default 3600)
+  WEBAPP_URL?: string // direct t.me link to the WebApp, sent back when initData is stale
 }
 
 /* --------------------------- helpers --------------------------- */
@@ -41,7 +105,7 @@ function json(data: Json, status = 200, headers: Record<string, string> = {}) {
     headers: {
       "content-type": "application/json; charset=utf-8",
       "access-control-allow-origin": "*",
-      "access-control-allow-methods": "GET,POST,OPTIONS",
+      "access-control-allow-methods": "GET,POST,PATCH,DELETE,OPTIONS",
       "access-control-allow-headers": "content-type,authorization",
       ...headers,
     },
@@ -86,6 +150,15 @@ function toHex(buf: ArrayBuffer): string {
   for (const b of bytes) out += b.toString(16).padStart(2, "0")
   return out
 }
+// secrets: compare SHA-256 digests byte by byte, so the time taken says nothing about a common prefix or the length
+async function secretEquals(a: string, b: string): Promise<boolean> {
+  const enc = new TextEncoder()
+  const x = new Uint8Array(await crypto.subtle.digest("SHA-256", enc.encode(a)))
+  const y = new Uint8Array(await crypto.subtle.digest("SHA-256", enc.encode(b)))
+  let diff = 0
+  for (let k = 0; k < x.length; k++) diff |= x[k] ^ y[k]
+  return diff === 0
+}
 function hexToBytes(hex: string): Uint8Array {
   const out = new Uint8Array(hex.length / 2)
   for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
@@ -115,10 +188,13 @@ function parseInitData(initData: string): Record<string, string> {
   return out
 }
 
+const INITDATA_MAX_AGE_SEC = 3600 // default for env.INITDATA_MAX_AGE_SEC
+
 async function validateTelegramInitData(
   initData: string,
-  botToken: string
-): Promise<{ ok: boolean; user?: any; error?: string }> {
+  botToken: string,
+  maxAgeSec: number
+): Promise<{ ok: boolean; user?: any; hash?: string; queryId?: string; error?: string; code?: string }> {
   if (!initData) return { ok: false, error: "initData is empty" }
   if (!botToken) return { ok: false, error: "BOT_TOKEN is not set" }
 
@@ -139,6 +215,11 @@ async function validateTelegramInitData(
   const expectedHex = toHex(await hmacSha256Raw(secretKeyBytes, dataCheckString))
   if (expectedHex !== hash) return { ok: false, error: "invalid hash" }
 
+  // auth_date is signed too, so a captured initData can only be replayed within the window
+  const authDate = Number(data["auth_date"])
+  if (!Number.isFinite(authDate) || authDate <= 0) return { ok: false, error: "auth_date missing" }
+  if (Date.now() / 1000 - authDate > maxAgeSec) return { ok: false, error: "initData expired", code: "INITDATA_EXPIRED" }
+
   let user: any
   if (data["user"]) {
     try {
@@ -149,19 +230,70 @@ async function validateTelegramInitData(
   }
   if (!user) return { ok: false, error: "user not found in initData" }
 
-  return { ok: true, user }
+  return { ok: true, user, hash, queryId: data["query_id"] || undefined }
+}
+
+// Login Widget (browser): same data-check-string as initData, but the fields arrive flat
+// and the key is SHA256(bot_token) instead of HMAC("WebAppData", bot_token)
+async function validateTelegramWidget(
+  data: Record<string, unknown>,
+  botToken: string,
+  maxAgeSec: number
+): Promise<{ ok: boolean; user?: any; error?: string; code?: string }> {
+  if (!botToken) return { ok: false, error: "BOT_TOKEN is not set" }
+  const hash = String(data?.hash ?? "")
+  if (!hash) return { ok: false, error: "hash missing" }
+
+  const keys = Object.keys(data)
+    .filter((k) => k !== "hash" && data[k] !== undefined && data[k] !== null && typeof data[k] !== "object")
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  const dataCheckString = keys.map((k) => `${k}=${data[k]}`).join("\n")
+
+  const secretKey = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(botToken)))
+  const expectedHex = toHex(await hmacSha256Raw(secretKey, dataCheckString))
+  if (expectedHex !== hash) return { ok: false, error: "invalid hash" }
+
+  const authDate = Number(data.auth_date)
+  if (!Number.isFinite(authDate) || authDate <= 0) return { ok: false, error: "auth_date missing" }
+  if (Date.now() / 1000 - authDate > maxAgeSec) return { ok: false, error: "login expired", code: "LOGIN_EXPIRED" }
+  if (!data.id) return { ok: false, error: "id missing" }
+
+  return {
+    ok: true,
+    user: { id: data.id, first_name: data.first_name, username: data.username, photo_url: data.photo_url },
+  }
+}
+
+// each initData (or Login Widget payload) mints a session once; rows older than the max age can go,
+// auth_date rejects those anyway
+async function claimInitData(env: Env, hash: string, queryId: string | undefined, tgId: string, maxAgeSec: number) {
+  const now = Date.now()
+  const [, ins] = await env.DB.batch([
+    env.DB.prepare(`DELETE FROM used_init_data WHERE used_at < ?1`).bind(now - maxAgeSec * 1000),
+    env.DB.prepare(`INSERT OR IGNORE INTO used_init_data (hash, query_id, tg_id, used_at) VALUES (?1, ?2, ?3, ?4)`).bind(
+      hash,
+      queryId ?? null,
+      tgId,
+      now
+    ),
+  ])
+  return !!ins.meta.changes
 }
 
 /* --------------------------- session token --------------------------- */
 
 type SessionPayload = {
   tg_id: string
+  jti: string // session id: kept across refreshes, the unit of revocation
   first_name?: string
   username?: string
   iat: number
   exp: number
 }
 
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000 // sliding: every refresh starts a new window
+
 async function signSession(payload: SessionPayload, appSecret: string): Promise<string> {
   const body = JSON.stringify(payload)
   const bodyBytes = new TextEncoder().encode(body)
@@ -184,217 +316,633 @@ async function verifySession(token: string, appSecret: string): Promise<SessionP
   }
 }
 
-/* --------------------------- D1 minimal users table --------------------------- */
+// Refresh tokens are opaque random strings; D1 keeps only their sha256, one row per token.
+// A refresh deletes the used row and issues a new one, so each token works once.
+async function issueSession(
+  env: Env,
+  user: { id: string | number; first_name?: string; username?: string },
+  jti = newSeed()
+) {
+  const now = Date.now()
+  const tgId = String(user.id)
+  const payload: SessionPayload = {
+    tg_id: tgId,
+    jti,
+    first_name: user.first_name ?? "",
+    username: user.username ?? "",
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_MS,
+  }
+  const sessionToken = await signSession(payload, env.APP_SECRET)
+  const refreshToken = newSeed()
+  await env.DB.batch([
+    env.DB.prepare(`DELETE FROM refresh_tokens WHERE tg_id=?1 AND expires_at < ?2`).bind(tgId, now),
+    env.DB.prepare(
+      `INSERT INTO refresh_tokens (token_hash, tg_id, jti, created_at, expires_at) VALUES (?1, ?2, ?3, ?4, ?5)`
+    ).bind(await sha256Hex(refreshToken), tgId, jti, now, now + REFRESH_TOKEN_TTL_MS),
+  ])
+  return { sessionToken, refreshToken, expiresAt: payload.exp }
+}
+
+// A revoked session loses its refresh tokens, so its last access token dies within ACCESS_TOKEN_TTL_MS;
+// after that the revoked_sessions row is no longer needed.
+async function revokeSessions(env: Env, tgId: string, jti?: string) {
+  const now = Date.now()
+  const prune = env.DB.prepare(`DELETE FROM revoked_sessions WHERE revoked_at < ?1`).bind(now - ACCESS_TOKEN_TTL_MS)
+  if (jti) {
+    await env.DB.batch([
+      prune,
+      env.DB.prepare(`INSERT OR IGNORE INTO revoked_sessions (jti, tg_id, revoked_at) VALUES (?1, ?2, ?3)`).bind(jti, tgId, now),
+      env.DB.prepare(`DELETE FROM refresh_tokens WHERE jti=?1`).bind(jti),
+    ])
+    return
+  }
+  // every live session of the user still has a refresh token row
+  await env.DB.batch([
+    prune,
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO revoked_sessions (jti, tg_id, revoked_at)
+       SELECT DISTINCT jti, tg_id, ?2 FROM refresh_tokens WHERE tg_id=?1`
+    ).bind(tgId, now),
+    env.DB.prepare(`DELETE FROM refresh_tokens WHERE tg_id=?1`).bind(tgId),
+  ])
+}
+
+const D1_MAX_PARAMS = 100 // bound parameters per statement
+
+async function revokedJtis(env: Env, jtis: string[]): Promise<Set<string>> {
+  const revoked = new Set<string>()
+  for (let i = 0; i < jtis.length; i += D1_MAX_PARAMS) {
+    const chunk = jtis.slice(i, i + D1_MAX_PARAMS)
+    const placeholders = chunk.map((_, k) => `?${k + 1}`).join(", ")
+    const rows = await env.DB.prepare(`SELECT jti FROM revoked_sessions WHERE jti IN (${placeholders})`)
+      .bind(...chunk)
+      .all<{ jti: string }>()
+    for (const r of rows.results ?? []) revoked.add(r.jti)
+  }
+  return revoked
+}
+
+type SessionErrorCode = "BAD_SESSION" | "SESSION_EXPIRED" | "SESSION_REVOKED"
+type SessionCheck = { ok: true; session: SessionPayload } | { ok: false; code: SessionErrorCode }
+
+// signature, expiry, then the revocation list: every HTTP route and socket JOIN goes through here
+async function checkSession(env: Env, token: string): Promise<SessionCheck> {
+  const session = await verifySession(token, env.APP_SECRET)
+  if (!session?.jti) return { ok: false, code: "BAD_SESSION" }
+  if (session.exp < Date.now()) return { ok: false, code: "SESSION_EXPIRED" }
+  if ((await revokedJtis(env, [session.jti])).size > 0) return { ok: false, code: "SESSION_REVOKED" }
+  return { ok: true, session }
+}
+
+function sessionError(code: SessionErrorCode) {
+  const message = code === "SESSION_EXPIRED" ? "session expired" : code === "SESSION_REVOKED" ? "session revoked" : "invalid session"
+  return bad(401, message, { code })
+}
+
+/* --------------------------- D1 schema (users + match history) --------------------------- */
+
+// once per isolate; a failed attempt is forgotten so the next request tries again
+let schemaReady: Promise<void> | null = null
 
 async function ensureSchema(env: Env) {
-  await env.DB.prepare(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tg_id TEXT NOT NULL UNIQUE,
-      first_name TEXT,
-      username TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    )
-  `).run()
+  schemaReady ??= createSchema(env).catch((e) => {
+    schemaReady = null
+    throw e
+  })
+  await schemaReady
+}
+
+async function createSchema(env: Env) {
+  await env.DB.batch([
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tg_id TEXT NOT NULL UNIQUE,
+        first_name TEXT,
+        username TEXT,
+        language_code TEXT,
+        display_name TEXT,
+        photo_url TEXT,
+        default_config_json TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `),
+    env.DB.prepare(`CREATE INDEX IF NOT EXISTS idx_users_tg_id ON users(tg_id)`),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS games (
+        id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        deck_size INTEGER NOT NULL,
+        max_players INTEGER NOT NULL,
+        config_json TEXT NOT NULL,
+        seating_json TEXT NOT NULL,
+        loser_tg_id TEXT,
+        rounds INTEGER NOT NULL,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS game_players (
+        game_id TEXT NOT NULL,
+        tg_id TEXT NOT NULL,
+        seat INTEGER NOT NULL,
+        place INTEGER,
+        is_loser INTEGER NOT NULL DEFAULT 0,
+        forfeited INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (game_id, tg_id)
+      )
+    `),
+    env.DB.prepare(`CREATE INDEX IF NOT EXISTS idx_game_players_tg_id ON game_players(tg_id)`),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS game_events (
+        game_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        at INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        tg_id TEXT,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (game_id, seq)
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS game_deals (
+        game_id TEXT PRIMARY KEY,
+        deck_size INTEGER NOT NULL,
+        seed TEXT NOT NULL,
+        commitment TEXT NOT NULL
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS ratings (
+        tg_id TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        deck_size INTEGER NOT NULL,
+        rating REAL NOT NULL,
+        games INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (tg_id, mode, deck_size)
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_hash TEXT PRIMARY KEY,
+        tg_id TEXT NOT NULL,
+        jti TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `),
+    env.DB.prepare(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_tg_id ON refresh_tokens(tg_id)`),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS user_links (
+        tg_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL UNIQUE,
+        linked_at INTEGER NOT NULL
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS used_init_data (
+        hash TEXT PRIMARY KEY,
+        query_id TEXT UNIQUE,
+        tg_id TEXT NOT NULL,
+        used_at INTEGER NOT NULL
+      )
+    `),
+    env.DB.prepare(`
+      CREATE TABLE IF NOT EXISTS revoked_sessions (
+        jti TEXT PRIMARY KEY,
+        tg_id TEXT NOT NULL,
+        revoked_at INTEGER NOT NULL
+      )
+    `),
+  ])
+  await ensureUserColumns(env)
+}
+
+// CREATE TABLE IF NOT EXISTS never touches an existing table: add the profile columns to older databases
+const USER_PROFILE_COLUMNS = ["language_code", "display_name", "photo_url", "default_config_json"]
+
+async function ensureUserColumns(env: Env) {
+  const cols = await env.DB.prepare(`PRAGMA table_info(users)`).all<{ name: string }>()
+  const have = new Set((cols.results ?? []).map((c) => c.name))
+  const missing = USER_PROFILE_COLUMNS.filter((c) => !have.has(c))
+  if (missing.length === 0) return
+  await env.DB.batch(missing.map((c) => env.DB.prepare(`ALTER TABLE users ADD COLUMN ${c} TEXT`)))
+}
+
+/* --------------------------- guests + linked accounts --------------------------- */
+
+// Guests play under `guest:*` ids. Linking a Telegram id does not move any history:
+// user_links maps the Telegram id to the guest id, and later Telegram logins resolve to it.
+function isGuestId(id: string): boolean {
+  return id.startsWith("guest:")
 }
 
+function newGuestId(): string {
+  return `guest:${newSeed().slice(0, 16)}`
+}
+
+async function playerIdFor(env: Env, telegramId: string): Promise<string> {
+  const link = await env.DB.prepare(`SELECT user_id FROM user_links WHERE tg_id=?1`)
+    .bind(telegramId)
+    .first<{ user_id: string }>()
+  return link?.user_id ?? telegramId
+}
+
+type TelegramLogin = { ok: true; user: any } | { ok: false; status: number; error: string; extra?: Json }
+
+// Mini App initData or a Login Widget payload -> verified Telegram user
+async function verifyTelegramLogin(
+  env: Env,
+  body: { initData?: string; widget?: Record<string, unknown> }
+): Promise<TelegramLogin> {
+  if (!env.BOT_TOKEN) return { ok: false, status: 500, error: "BOT_TOKEN is not set" }
+  const maxAgeSec = Number(env.INITDATA_MAX_AGE_SEC ?? INITDATA_MAX_AGE_SEC) || INITDATA_MAX_AGE_SEC
+
+  if (body.widget) {
+    const v = await validateTelegramWidget(body.widget, env.BOT_TOKEN, maxAgeSec)
+    if (!v.ok) return { ok: false, status: 401, error: v.error || "auth failed", extra: v.code ? { code: v.code } : undefined }
+    // a captured widget login is as good as a password until auth_date runs out: one use only
+    if (!(await claimInitData(env, String(body.widget.hash), undefined, String(v.user.id), maxAgeSec))) {
+      return { ok: false, status: 401, error: "login already used", extra: { code: "LOGIN_REPLAYED" } }
+    }
+    return { ok: true, user: v.user }
+  }
+
+  // a stale or used initData cannot be fixed by retrying: the WebApp has to be opened again
+  const relaunch = { url: env.WEBAPP_URL ?? null, hint: "close the WebApp and open it again from the bot" }
+  const v = await validateTelegramInitData(String(body.initData ?? ""), env.BOT_TOKEN, maxAgeSec)
+  if (!v.ok) {
+    const extra = v.code === "INITDATA_EXPIRED" ? { code: v.code, relaunch } : undefined
+    return { ok: false, status: 401, error: v.error || "auth failed", extra }
+  }
+  if (!(await claimInitData(env, v.hash!, v.queryId, String(v.user.id), maxAgeSec))) {
+    return { ok: false, status: 401, error: "initData already used", extra: { code: "INITDATA_REPLAYED", relaunch } }
+  }
+  return { ok: true, user: v.user }
+}
+
+// every login flow ends here: one users row, one session pair
+async function loginResponse(env: Env, user: { id: string; first_name?: string; username?: string }) {
+  await upsertUser(env, user)
+  const session = await issueSession(env, user)
+  return ok({ ...session, user: { id: user.id, first_name: user.first_name, username: user.username } })
+}
+
+// Telegram's language_code only seeds the preferred language; a choice made via PATCH /api/me sticks
 async function upsertUser(env: Env, user: any) {
   const now = Date.now()
   await env.DB.prepare(
     `
-    INSERT INTO users (tg_id, first_name, username, created_at, updated_at)
-    VALUES (?1, ?2, ?3, ?4, ?4)
+    INSERT INTO users (tg_id, first_name, username, language_code, photo_url, created_at, updated_at)
+    VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?6)
     ON CONFLICT(tg_id) DO UPDATE SET
       first_name=excluded.first_name,
       username=excluded.username,
+      language_code=COALESCE(users.language_code, excluded.language_code),
+      photo_url=COALESCE(excluded.photo_url, users.photo_url),
       updated_at=excluded.updated_at
     `
   )
-    .bind(String(user.id), user.first_name ?? null, user.username ?? null, now)
+    .bind(
+      String(user.id),
+      user.first_name ?? null,
+      user.username ?? null,
+      user.language_code ?? null,
+      user.photo_url ?? null,
+      now
+    )
     .run()
 }
 
-/* --------------------------- Durak engine types --------------------------- */
+/* --------------------------- profiles --------------------------- */
 
-type Mode = "podkidnoy" | "perevodnoy"
-type DeckSize = 24 | 36
-type Suit = "S" | "H" | "D" | "C"
-type Rank = 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 // J=11 Q=12 K=13 A=14
-type Card = string // e.g. "H9", "SJ", "DA"
-type TablePair = { a: Card; d: Card | null }
+const DISPLAY_NAME_MAX = 32
 
-type RoomConfig = {
-  mode: Mode
-  deckSize: DeckSize
-  maxPlayers: 2 | 3 | 4
+type UserRow = {
+  tg_id: string
+  first_name: string | null
+  username: string | null
+  language_code: string | null
+  display_name: string | null
+  photo_url: string | null
+  default_config_json: string | null
 }
 
-type GameState = {
-  roomId: string
-  config: RoomConfig
-  phase: "playing" | "finished"
-
-  order: string[] // seating order
-  active: Record<string, boolean>
+// what other players see: the chosen name, else the Telegram one
+function displayNameOf(u: Pick<UserRow, "tg_id" | "display_name" | "first_name" | "username">): string {
+  return u.display_name || u.first_name || (u.username ? `@${u.username}` : u.tg_id)
+}
 
-  deck: Card[]
-  trumpSuit: Suit
-  trumpCard: Card
+async function loadUser(env: Env, tgId: string): Promise<UserRow | null> {
+  return env.DB.prepare(
+    `SELECT tg_id, first_name, username, language_code, display_name, photo_url, default_config_json
+     FROM users WHERE tg_id = ?1`
+  )
+    .bind(tgId)
+    .first<UserRow>()
+}
 
-  hands: Record<string, Card[]>
-  table: TablePair[]
-  discard: Card[]
+function profileOf(u: UserRow) {
+  let defaultConfig: RoomConfig | null = null
+  try {
+    defaultConfig = u.default_config_json ? parseRoomConfig(JSON.parse(u.default_config_json)) : null
+  } catch {}
+  return {
+    id: u.tg_id,
+    first_name: u.first_name ?? "",
+    username: u.username ?? "",
+    displayName: displayNameOf(u),
+    customName: u.display_name,
+    language: u.language_code,
+    avatarUrl: u.photo_url,
+    defaultConfig,
+    guest: isGuestId(u.tg_id),
+  }
+}
 
-  attackerId: string
-  defenderId: string
+// untrusted PATCH body -> column updates; null resets a field, a missing key leaves it alone
+function parseProfilePatch(body: any): { set: Record<string, string | null> } | { code: string; error: string } {
+  const set: Record<string, string | null> = {}
+  if (body?.displayName !== undefined) {
+    const name = body.displayName === null ? "" : String(body.displayName).replace(/\s+/g, " ").trim()
+    if (name.length > DISPLAY_NAME_MAX) {
+      return { code: "BAD_DISPLAY_NAME", error: `display name is longer than ${DISPLAY_NAME_MAX}` }
+    }
+    set.display_name = name || null
+  }
+  if (body?.language !== undefined) {
+    const lang = body.language === null ? "" : String(body.language).toLowerCase()
+    if (lang && !/^[a-z]{2,3}(-[a-z0-9]{2,8})?$/.test(lang)) {
+      return { code: "BAD_LANGUAGE", error: "language must be a code like en or pt-br" }
+    }
+    set.language_code = lang || null
+  }
+  if (body?.defaultConfig !== undefined) {
+    set.default_config_json = body.defaultConfig === null ? null : JSON.stringify(parseRoomConfig(body.defaultConfig))
+  }
+  return { set }
+}
 
-  roundLimit: number
-  passed: string[]
-  takeDeclared: boolean
+/* --------------------------- room timing --------------------------- */
+
+const TURN_TIMEOUT_MS = 30 * 1000
+const RECONNECT_GRACE_MS = 60 * 1000
+const READY_TIMEOUT_MS = 20 * 1000 // matched rooms: everyone must send READY before this
+const SPECTATOR_LIMIT = 50 // per room; counted in distinct non-seated tg_ids
+const BOT_DELAY_MS = 1200 // bots wait this long after the last move, so people can follow the table
+const REQUEUE_RETRY_MS = 5 * 1000 // matchmaker unreachable at the ready deadline: the lobby stays and the alarm retries
+const RESULT_RETRY_MS = 10 * 1000 // a failed match-history write is retried from the alarm after this
+const REVOCATION_CHECK_MS = 15 * 1000 // live sockets are re-checked against revoked sessions at most this often
+
+// untrusted client input -> valid config (unknown values fall back to defaults)
+// a team game needs all four seats; everything else can start with two
+function minSeats(cfg: RoomConfig): number {
+  return cfg.teams ? 4 : 2
+}
 
-  loser: string | null
-  updatedAt: number
+function parseRoomConfig(body: any): RoomConfig {
+  const maxPlayers: MaxPlayers = [3, 4, 5, 6].includes(body?.maxPlayers) ? body.maxPlayers : 2
+  let deckSize: DeckSize = body?.deckSize === 24 ? 24 : body?.deckSize === 52 ? 52 : 36
+  // 5-6 players need cards left to draw after the deal
+  if (maxPlayers > 4 && deckSize <= maxPlayers * HAND_SIZE) deckSize = 52
+  return {
+    mode: body?.mode === "perevodnoy" ? "perevodnoy" : "podkidnoy",
+    deckSize,
+    maxPlayers,
+    rules: parseRoomRules(body?.rules),
+    teams: body?.maxPlayers === 4 && body?.teams === true,
+  }
 }
 
-type VResult = { ok: true } | { ok: false; code: string }
+// always a full set, so rooms, queues and clients never have to guess the defaults
+function parseRoomRules(body: any): RoomRules {
+  return {
+    firstRoundLimit5: body?.firstRoundLimit5 === true,
+    throwIn: body?.throwIn === "neighbors" ? "neighbors" : DEFAULT_RULES.throwIn,
+    roundLimit: body?.roundLimit === "six" ? "six" : DEFAULT_RULES.roundLimit,
+    transferShow: body?.transferShow === true,
+  }
+}
 
-const SUITS: Suit[] = ["S", "H", "D", "C"]
-const RANKS_36: Rank[] = [6, 7, 8, 9, 10, 11, 12, 13, 14]
-const RANKS_24: Rank[] = [9, 10, 11, 12, 13, 14]
+/* --------------------------- fair deal (commit-reveal) --------------------------- */
+// The deck order is a pure function of a 256-bit seed. At the deal only sha256(seed:deck)
+// is published; the seed is revealed when the game ends, so anyone can rebuild the deck
+// (see /api/games/<id>/verify) and check it against the commitment.
 
-function rankToStr(r: Rank): string {
-  if (r === 11) return "J"
-  if (r === 12) return "Q"
-  if (r === 13) return "K"
-  if (r === 14) return "A"
-  return String(r)
+function newSeed(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return toHex(bytes.buffer)
 }
-function strToRank(s: string): Rank | null {
-  if (s === "J") return 11
-  if (s === "Q") return 12
-  if (s === "K") return 13
-  if (s === "A") return 14
-  const n = Number(s)
-  if ([6, 7, 8, 9, 10].includes(n)) return n as Rank
-  return null
-}
-function parseCard(card: Card): { suit: Suit; rank: Rank } | null {
-  if (!card || card.length < 2) return null
-  const suit = card[0] as Suit
-  const rStr = card.slice(1)
-  if (!SUITS.includes(suit)) return null
-  const rank = strToRank(rStr)
-  if (!rank) return null
-  return { suit, rank }
-}
-function createDeck(deckSize: DeckSize): Card[] {
-  const ranks = deckSize === 24 ? RANKS_24 : RANKS_36
-  const deck: Card[] = []
-  for (const s of SUITS) for (const r of ranks) deck.push(`${s}${rankToStr(r)}`)
-  return deck
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)))
 }
-function shuffle<T>(arr: T[]): T[] {
+
+// Fisher-Yates driven by SHA-256(seed:counter) blocks, rejection-sampled (no modulo bias)
+async function seededShuffle<T>(arr: T[], seed: string): Promise<T[]> {
+  let block = new Uint8Array(0)
+  let offset = 0
+  let counter = 0
+  const nextU32 = async () => {
+    if (offset + 4 > block.length) {
+      block = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${seed}:${counter++}`)))
+      offset = 0
+    }
+    const v = new DataView(block.buffer).getUint32(offset)
+    offset += 4
+    return v
+  }
+
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const n = i + 1
+    const limit = 2 ** 32 - (2 ** 32 % n)
+    let x = await nextU32()
+    while (x >= limit) x = await nextU32()
+    const j = x % n
     ;[arr[i], arr[j]] = [arr[j], arr[i]]
   }
   return arr
 }
-function sortBySuitThenRank(a: Card, b: Card) {
-  const pa = parseCard(a)!
-  const pb = parseCard(b)!
-  if (pa.suit !== pb.suit) return pa.suit < pb.suit ? -1 : 1
-  return pa.rank - pb.rank
-}
-function removeCard(hand: Card[], card: Card): boolean {
-  const idx = hand.indexOf(card)
-  if (idx === -1) return false
-  hand.splice(idx, 1)
-  return true
+
+async function dealDeck(deckSize: DeckSize, seed: string): Promise<Card[]> {
+  return seededShuffle(createDeck(deckSize), seed)
 }
-function cardBeats(defCard: Card, atkCard: Card, trumpSuit: Suit): boolean {
-  const d = parseCard(defCard)
-  const a = parseCard(atkCard)
-  if (!d || !a) return false
-  if (d.suit === a.suit) return d.rank > a.rank
-  if (d.suit === trumpSuit && a.suit !== trumpSuit) return true
-  return false
+
+async function deckCommitment(seed: string, deck: Card[]): Promise<string> {
+  return sha256Hex(`${seed}:${deck.join(",")}`)
 }
-function tableRanks(table: TablePair[]): Set<Rank> {
-  const set = new Set<Rank>()
-  for (const p of table) {
-    const a = parseCard(p.a)
-    if (a) set.add(a.rank)
-    if (p.d) {
-      const d = parseCard(p.d)
-      if (d) set.add(d.rank)
-    }
+
+/* --------------------------- D1 match history --------------------------- */
+
+// place: 1 = first out; the loser gets the last place; NULL = still holding cards when the game stopped
+async function saveFinishedGame(env: Env, g: GameState, forfeited: string[]) {
+  const finishedAt = g.updatedAt
+  const startedAt = g.startedAt ?? finishedAt
+  const finishOrder = g.finishOrder ?? []
+
+  const stmts: D1PreparedStatement[] = [
+    env.DB.prepare(
+      `
+      INSERT OR IGNORE INTO games
+        (id, mode, deck_size, max_players, config_json, seating_json, loser_tg_id, rounds, started_at, finished_at, duration_ms)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)
+      `
+    ).bind(
+      g.roomId,
+      g.config.mode,
+      g.config.deckSize,
+      g.config.maxPlayers,
+      JSON.stringify(g.config),
+      JSON.stringify(g.order),
+      g.loser,
+      g.rounds ?? 0,
+      startedAt,
+      finishedAt,
+      finishedAt - startedAt
+    ),
+  ]
+
+  // full event log for /api/games/<id>/replay
+  for (const { seq, at, type, by, ...data } of g.log ?? []) {
+    stmts.push(
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO game_events (game_id, seq, at, type, tg_id, data_json) VALUES (?1, ?2, ?3, ?4, ?5, ?6)`
+      ).bind(g.roomId, seq, at, type, by ?? null, JSON.stringify(data))
+    )
   }
-  return set
-}
-function attackRanksOnly(table: TablePair[]): Set<Rank> {
-  const set = new Set<Rank>()
-  for (const p of table) {
-    const a = parseCard(p.a)
-    if (a) set.add(a.rank)
+
+  // reveal: the seed goes public with the result
+  if (g.seed) {
+    stmts.push(
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO game_deals (game_id, deck_size, seed, commitment) VALUES (?1, ?2, ?3, ?4)`
+      ).bind(g.roomId, g.config.deckSize, g.seed, g.commitment)
+    )
   }
-  return set
-}
-function isNeedDefense(table: TablePair[]): boolean {
-  return table.some((p) => !p.d)
-}
-function isFullyDefended(table: TablePair[]): boolean {
-  return table.length > 0 && table.every((p) => !!p.d)
-}
-function nextActiveId(order: string[], active: Record<string, boolean>, fromId: string): string {
-  const n = order.length
-  const start = order.indexOf(fromId)
-  if (start === -1) return order[0]
-  for (let k = 1; k <= n; k++) {
-    const idx = (start + k) % n
-    const id = order[idx]
-    if (active[id]) return id
-  }
-  return fromId
-}
-function listAttackers(order: string[], active: Record<string, boolean>, defenderId: string): string[] {
-  return order.filter((id) => active[id] && id !== defenderId)
+
+  g.order.forEach((id, seat) => {
+    const idx = finishOrder.indexOf(id)
+    const place = isLoser(g, id) ? g.order.length : idx === -1 ? null : idx + 1
+    stmts.push(
+      env.DB.prepare(
+        `
+        INSERT OR IGNORE INTO game_players (game_id, tg_id, seat, place, is_loser, forfeited)
+        VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+        `
+      ).bind(g.roomId, id, seat, place, isLoser(g, id) ? 1 : 0, forfeited.includes(id) ? 1 : 0)
+    )
+  })
+
+  await env.DB.batch(stmts)
 }
-function lowestTrumpRank(hand: Card[], trumpSuit: Suit): Rank | null {
-  let best: Rank | null = null
-  for (const c of hand) {
-    const p = parseCard(c)
-    if (!p) continue
-    if (p.suit !== trumpSuit) continue
-    if (best === null || p.rank < best) best = p.rank
+
+/* --------------------------- ratings (multiplayer Elo) --------------------------- */
+
+const RATING_START = 1500
+const RATING_K = 32
+
+// bots play at a fixed strength and never get a ratings row
+const BOT_RATING: Record<BotLevel, number> = { easy: 1200, normal: 1500, hard: 1800 }
+
+// lower = better: players who got out in finish order, then those still holding cards, loser last;
+// in team games only the team result counts
+function resultRanks(g: GameState): Record<string, number> {
+  const finishOrder = g.finishOrder ?? []
+  const ranks: Record<string, number> = {}
+  for (const id of g.order) {
+    if (g.teams) {
+      ranks[id] = isLoser(g, id) ? 1 : 0
+      continue
+    }
+    const idx = finishOrder.indexOf(id)
+    if (id === g.loser) ranks[id] = g.order.length + 1
+    else if (idx !== -1) ranks[id] = idx
+    else ranks[id] = g.order.length
   }
-  return best
+  return ranks
 }
-function drawUpTo6(g: GameState, drawOrder: string[]) {
-  for (const pid of drawOrder) {
-    const hand = g.hands[pid]
-    while (hand.length < 6 && g.deck.length > 0) {
-      const c = g.deck.pop()!
-      hand.push(c)
+
+// every pair of players counts as one virtual game; K is shared across the n-1 opponents
+function eloDeltas(ratings: Record<string, number>, ranks: Record<string, number>): Record<string, number> {
+  const ids = Object.keys(ratings)
+  const out: Record<string, number> = {}
+  for (const a of ids) {
+    let sum = 0
+    for (const b of ids) {
+      if (a === b) continue
+      const expected = 1 / (1 + Math.pow(10, (ratings[b] - ratings[a]) / 400))
+      const score = ranks[a] < ranks[b] ? 1 : ranks[a] > ranks[b] ? 0 : 0.5
+      sum += score - expected
     }
-    hand.sort(sortBySuitThenRank)
+    out[a] = ids.length > 1 ? (RATING_K * sum) / (ids.length - 1) : 0
   }
+  return out
 }
-function pruneOutPlayers(g: GameState) {
-  if (g.deck.length > 0) return
+
+async function updateRatings(env: Env, g: GameState) {
+  const { mode, deckSize } = g.config
+  const ids = g.order.filter((id) => !isBotId(id))
+  if (ids.length === 0) return
+  const placeholders = ids.map((_, i) => `?${i + 3}`).join(", ")
+  const rows = await env.DB.prepare(
+    `SELECT tg_id, rating, games FROM ratings WHERE mode = ?1 AND deck_size = ?2 AND tg_id IN (${placeholders})`
+  )
+    .bind(mode, deckSize, ...ids)
+    .all<{ tg_id: string; rating: number; games: number }>()
+
+  const ratings: Record<string, number> = {}
+  const games: Record<string, number> = {}
   for (const id of g.order) {
-    if (!g.active[id]) continue
-    if (g.hands[id].length === 0) g.active[id] = false
+    const level = botLevelOf(id)
+    ratings[id] = level ? BOT_RATING[level] : RATING_START
+    games[id] = 0
   }
-  const alive = g.order.filter((id) => g.active[id])
-  if (alive.length === 1) {
-    g.phase = "finished"
-    g.loser = alive[0]
-  } else if (alive.length === 0) {
-    g.phase = "finished"
-    g.loser = null
+  for (const r of rows.results ?? []) {
+    ratings[r.tg_id] = r.rating
+    games[r.tg_id] = r.games
   }
+
+  const deltas = eloDeltas(ratings, resultRanks(g))
+  const now = Date.now()
+  await env.DB.batch(
+    ids.map((id) =>
+      env.DB.prepare(
+        `
+        INSERT INTO ratings (tg_id, mode, deck_size, rating, games, updated_at)
+        VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+        ON CONFLICT(tg_id, mode, deck_size) DO UPDATE SET
+          rating=excluded.rating,
+          games=excluded.games,
+          updated_at=excluded.updated_at
+        `
+      ).bind(id, mode, deckSize, ratings[id] + deltas[id], games[id] + 1, now)
+    )
+  )
+}
+
+async function getRating(env: Env, tgId: string, mode: Mode, deckSize: DeckSize): Promise<number> {
+  const row = await env.DB.prepare(`SELECT rating FROM ratings WHERE tg_id = ?1 AND mode = ?2 AND deck_size = ?3`)
+    .bind(tgId, mode, deckSize)
+    .first<{ rating: number }>()
+  return row?.rating ?? RATING_START
+}
+
+/* --------------------------- private room invite codes --------------------------- */
+
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789" // no 0/O, 1/I
+const INVITE_CODE_LEN = 6
+
+function genInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LEN))
+  let out = ""
+  for (const b of bytes) out += INVITE_ALPHABET[b % INVITE_ALPHABET.length]
+  return out
 }
 
 /* --------------------------- Worker routes --------------------------- */
@@ -410,6 +958,11 @@ export default {
       return new Response(MINI_HTML, { headers: { "content-type": "text/html; charset=utf-8" } })
     }
 
+    if (url.pathname === "/lobby") {
+      const stub = env.MM.get(env.MM.idFromName("global"))
+      return stub.fetch(request)
+    }
+
     if (url.pathname.startsWith("/ws/")) {
       const roomId = url.pathname.slice("/ws/".length)
       if (!roomId) return bad(400, "roomId missing")
@@ -422,6 +975,7 @@ export default {
         ok: true,
         hasBOT_TOKEN: !!env.BOT_TOKEN,
         hasAPP_SECRET: !!env.APP_SECRET,
+        hasADMIN_TOKEN: !!env.ADMIN_TOKEN,
         hasDB: !!env.DB,
         hasMM: !!env.MM,
         hasROOM: !!env.ROOM,
@@ -443,45 +997,103 @@ export default {
     try {
       await ensureSchema(env)
 
-      // POST /api/auth/telegram
-      if (url.pathname === "/api/auth/telegram" && request.method === "POST") {
-        if (!env.BOT_TOKEN) return bad(500, "BOT_TOKEN is not set")
+      // POST /api/auth/telegram (Mini App) and /api/auth/widget (Login Widget in a browser)
+      if ((url.pathname === "/api/auth/telegram" || url.pathname === "/api/auth/widget") && request.method === "POST") {
         if (!env.APP_SECRET) return bad(500, "APP_SECRET is not set")
 
-        const body = (await request.json().catch(() => ({}))) as { initData?: string }
-        const initData = String(body.initData ?? "")
-        const v = await validateTelegramInitData(initData, env.BOT_TOKEN)
-        if (!v.ok) return bad(401, v.error || "auth failed")
+        const body = (await request.json().catch(() => ({}))) as Record<string, any>
+        const v = await verifyTelegramLogin(
+          env,
+          url.pathname === "/api/auth/widget" ? { widget: body } : { initData: String(body.initData ?? "") }
+        )
+        if (!v.ok) return bad(v.status, v.error, v.extra)
 
-        await upsertUser(env, v.user)
+        const playerId = await playerIdFor(env, String(v.user.id))
+        return loginResponse(env, { ...v.user, id: playerId })
+      }
 
-        const now = Date.now()
-        const payload: SessionPayload = {
-          tg_id: String(v.user.id),
-          first_name: v.user.first_name ?? "",
-          username: v.user.username ?? "",
-          iat: now,
-          exp: now + 2 * 60 * 60 * 1000,
-        }
-        const sessionToken = await signSession(payload, env.APP_SECRET)
-        return ok({
-          sessionToken,
-          user: { id: v.user.id, first_name: v.user.first_name, username: v.user.username },
-        })
+      // POST /api/auth/guest
+      if (url.pathname === "/api/auth/guest" && request.method === "POST") {
+        if (!env.APP_SECRET) return bad(500, "APP_SECRET is not set")
+        const id = newGuestId()
+        return loginResponse(env, { id, first_name: `Guest ${id.slice(-4)}` })
+      }
+
+      // POST /api/auth/link
+      if (url.pathname === "/api/auth/link" && request.method === "POST") {
+        const auth = await checkSession(env, getBearer(request))
+        if (!auth.ok) return sessionError(auth.code)
+        const guestId = auth.session.tg_id
+        if (!isGuestId(guestId)) return bad(409, "only guest accounts can be linked", { code: "NOT_A_GUEST" })
+
+        const body = (await request.json().catch(() => ({}))) as { initData?: string; widget?: Record<string, unknown> }
+        const v = await verifyTelegramLogin(env, body.widget ? { widget: body.widget } : { initData: body.initData })
+        if (!v.ok) return bad(v.status, v.error, v.extra)
+
+        // a Telegram id that already plays on its own account keeps it
+        const telegramId = String(v.user.id)
+        const existing = await env.DB.prepare(`SELECT 1 AS x FROM users WHERE tg_id=?1`).bind(telegramId).first()
+        if (existing) return bad(409, "this Telegram account already has a profile", { code: "TELEGRAM_ID_IN_USE" })
+
+        const ins = await env.DB.prepare(`INSERT OR IGNORE INTO user_links (tg_id, user_id, linked_at) VALUES (?1, ?2, ?3)`)
+          .bind(telegramId, guestId, Date.now())
+          .run()
+        if (!ins.meta.changes) return bad(409, "already linked", { code: "ALREADY_LINKED" })
+
+        await upsertUser(env, { ...v.user, id: guestId })
+        return ok({ id: guestId, telegramId })
+      }
+
+      // POST /api/auth/refresh
+      if (url.pathname === "/api/auth/refresh" && request.method === "POST") {
+        if (!env.APP_SECRET) return bad(500, "APP_SECRET is not set")
+
+        const body = (await request.json().catch(() => ({}))) as { refreshToken?: string }
+        const tokenHash = await sha256Hex(String(body.refreshToken ?? ""))
+        const row = await env.DB.prepare(`SELECT tg_id, jti, expires_at FROM refresh_tokens WHERE token_hash=?1`)
+          .bind(tokenHash)
+          .first<{ tg_id: string; jti: string; expires_at: number }>()
+        if (!row) return bad(401, "invalid refresh token", { code: "REFRESH_INVALID" })
+
+        // rotate: a concurrent refresh with the same token loses the delete and gets REFRESH_INVALID
+        const del = await env.DB.prepare(`DELETE FROM refresh_tokens WHERE token_hash=?1`).bind(tokenHash).run()
+        if (!del.meta.changes) return bad(401, "invalid refresh token", { code: "REFRESH_INVALID" })
+        if (row.expires_at < Date.now()) return bad(401, "refresh token expired", { code: "REFRESH_EXPIRED" })
+
+        const u = await env.DB.prepare(`SELECT first_name, username FROM users WHERE tg_id=?1`)
+          .bind(row.tg_id)
+          .first<{ first_name: string | null; username: string | null }>()
+        const user = { id: row.tg_id, first_name: u?.first_name ?? undefined, username: u?.username ?? undefined }
+        return ok({ ...(await issueSession(env, user, row.jti)), user })
+      }
+
+      // POST /api/auth/logout
+      if (url.pathname === "/api/auth/logout" && request.method === "POST") {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        await revokeSessions(env, auth.session.tg_id, auth.session.jti)
+        return ok()
+      }
+
+      // POST /api/admin/users/<tgId>/revoke-sessions
+      const revokeMatch = url.pathname.match(/^\/api\/admin\/users\/([^/]+)\/revoke-sessions$/)
+      if (revokeMatch && request.method === "POST") {
+        if (!env.ADMIN_TOKEN || !(await secretEquals(getBearer(request), env.ADMIN_TOKEN))) return bad(403, "forbidden")
+        const tgId = decodeURIComponent(revokeMatch[1])
+        await revokeSessions(env, tgId)
+        return ok({ tgId })
       }
 
       // POST /api/matchmaking
       if (url.pathname === "/api/matchmaking" && request.method === "POST") {
         const token = getBearer(request)
-        const session = await verifySession(token, env.APP_SECRET)
-        if (!session) return bad(401, "invalid session")
-        if (session.exp < Date.now()) return bad(401, "session expired")
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        const session = auth.session
 
         const body = (await request.json().catch(() => ({}))) as Partial<RoomConfig>
-        const mode: Mode = body.mode === "perevodnoy" ? "perevodnoy" : "podkidnoy"
-        const deckSize: DeckSize = body.deckSize === 24 ? 24 : 36
-        const maxPlayers: 2 | 3 | 4 =
-          body.maxPlayers === 3 ? 3 : body.maxPlayers === 4 ? 4 : 2
+        const { mode, deckSize, maxPlayers, rules, teams } = parseRoomConfig(body)
 
         const stub = env.MM.get(env.MM.idFromName("global"))
         return stub.fetch("https://mm/match", {
@@ -494,6 +1106,8 @@ export default {
             mode,
             deckSize,
             maxPlayers,
+            rules,
+            teams,
             player: {
               id: String(session.tg_id),
               name: session.first_name || "Player",
@@ -503,6 +1117,197 @@ export default {
         })
       }
 
+      // GET /api/matchmaking (status + heartbeat), DELETE /api/matchmaking (cancel)
+      if (url.pathname === "/api/matchmaking" && (request.method === "GET" || request.method === "DELETE")) {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+
+        const stub = env.MM.get(env.MM.idFromName("global"))
+        return stub.fetch(request.method === "GET" ? "https://mm/status" : "https://mm/cancel", {
+          method: "POST",
+          headers: { authorization: `Bearer ${token}` },
+        })
+      }
+
+      // POST /api/rooms (private room with invite code)
+      if (url.pathname === "/api/rooms" && request.method === "POST") {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        const session = auth.session
+
+        const config = parseRoomConfig(await request.json().catch(() => ({})))
+        // the invite code doubles as the RoomDO name; retry on the rare collision
+        for (let attempt = 0; attempt < 5; attempt++) {
+          const code = genInviteCode()
+          const stub = env.ROOM.get(env.ROOM.idFromName(code))
+          const r = await stub.fetch("https://room/create", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ roomId: code, code, config, hostId: String(session.tg_id) }),
+          })
+          if (r.status === 409) continue
+          if (!r.ok) return r
+          return ok({ roomId: code, code, wsUrl: `/ws/${code}`, config })
+        }
+        return bad(503, "could not allocate invite code")
+      }
+
+      // POST /api/rooms/<code>/join
+      const joinMatch = url.pathname.match(/^\/api\/rooms\/([A-Za-z0-9]+)\/join$/)
+      if (joinMatch && request.method === "POST") {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        const session = auth.session
+
+        const code = joinMatch[1].toUpperCase()
+        const stub = env.ROOM.get(env.ROOM.idFromName(code))
+        return stub.fetch("https://room/join", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ tgId: String(session.tg_id) }),
+        })
+      }
+
+      // POST /api/practice (you + 1-3 bots, maxPlayers capped at 4; dealt right away, never rated)
+      if (url.pathname === "/api/practice" && request.method === "POST") {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        const session = auth.session
+
+        const body = (await request.json().catch(() => ({}))) as { level?: string; maxPlayers?: unknown }
+        const config = parseRoomConfig({ ...body, maxPlayers: Math.min(Number(body.maxPlayers) || 2, PRACTICE_MAX_PLAYERS) })
+        const level: BotLevel = BOT_LEVELS.includes(body.level as BotLevel) ? (body.level as BotLevel) : "easy"
+
+        const roomId = crypto.randomUUID()
+        const stub = env.ROOM.get(env.ROOM.idFromName(roomId))
+        const r = await stub.fetch("https://room/practice", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ roomId, config, tgId: String(session.tg_id), level }),
+        })
+        if (!r.ok) return r
+        return ok({ roomId, wsUrl: `/ws/${roomId}`, config, level, practice: true })
+      }
+
+      // GET /api/games/<id>/verify (public: rebuild the deck from the revealed seed)
+      const verifyMatch = url.pathname.match(/^\/api\/games\/([^/]+)\/verify$/)
+      if (verifyMatch && request.method === "GET") {
+        const gameId = decodeURIComponent(verifyMatch[1])
+        const row = await env.DB.prepare(`SELECT deck_size, seed, commitment FROM game_deals WHERE game_id = ?1`)
+          .bind(gameId)
+          .first<{ deck_size: DeckSize; seed: string; commitment: string }>()
+        if (!row) return bad(404, "game not found or not finished")
+
+        const deck = await dealDeck(row.deck_size, row.seed)
+        const recomputed = await deckCommitment(row.seed, deck)
+        return ok({
+          gameId,
+          seed: row.seed,
+          commitment: row.commitment,
+          recomputed,
+          valid: recomputed === row.commitment,
+          deck,
+          trumpCard: deck[0],
+        })
+      }
+
+      // GET /api/games/<id>/replay (public once finished: the whole event log)
+      const replayMatch = url.pathname.match(/^\/api\/games\/([^/]+)\/replay$/)
+      if (replayMatch && request.method === "GET") {
+        const gameId = decodeURIComponent(replayMatch[1])
+        const game = await env.DB.prepare(
+          `SELECT mode, deck_size, config_json, seating_json, loser_tg_id, rounds, started_at, finished_at FROM games WHERE id = ?1`
+        )
+          .bind(gameId)
+          .first<{
+            mode: Mode
+            deck_size: DeckSize
+            config_json: string
+            seating_json: string
+            loser_tg_id: string | null
+            rounds: number
+            started_at: number
+            finished_at: number
+          }>()
+        if (!game) return bad(404, "game not found or not finished")
+
+        const rows = await env.DB.prepare(
+          `SELECT seq, at, type, tg_id, data_json FROM game_events WHERE game_id = ?1 ORDER BY seq`
+        )
+          .bind(gameId)
+          .all<{ seq: number; at: number; type: GameEventType; tg_id: string | null; data_json: string }>()
+        const events: GameEvent[] = (rows.results ?? []).map((r) => ({
+          seq: r.seq,
+          at: r.at,
+          type: r.type,
+          ...(r.tg_id ? { by: r.tg_id } : {}),
+          ...JSON.parse(r.data_json),
+        }))
+
+        return ok({
+          gameId,
+          config: JSON.parse(game.config_json),
+          players: JSON.parse(game.seating_json),
+          loser: game.loser_tg_id,
+          rounds: game.rounds,
+          startedAt: game.started_at,
+          finishedAt: game.finished_at,
+          events,
+        })
+      }
+
+      // GET /api/me
+      if (url.pathname === "/api/me" && request.method === "GET") {
+        const token = getBearer(request)
+        const auth = await checkSession(env, token)
+        if (!auth.ok) return sessionError(auth.code)
+        const session = auth.session
+
+        const tgId = String(session.tg_id)
+        const user = await loadUser(env, tgId)
+        if (!user) return bad(404, "user not found")
+        const rows = await env.DB.prepare(
+          `SELECT mode, deck_size, rating, games FROM ratings WHERE tg_id = ?1 ORDER BY mode, deck_size`
+        )
+          .bind(tgId)
+          .all<{ mode: Mode; deck_size: DeckSize; rating: number; games: number }>()
+
+        return ok({
+          user: profileOf(user),
+          ratings: (rows.results ?? []).map((r) => ({
+            mode: r.mode,
+            deckSize: r.deck_size,
+            rating: Math.round(r.rating),
+            games: r.games,
+          })),
+        })
+      }
+
+      // PATCH /api/me
+      if (url.pathname === "/api/me" && request.method === "PATCH") {
+        const auth = await checkSession(env, getBearer(request))
+        if (!auth.ok) return sessionError(auth.code)
+        const tgId = String(auth.session.tg_id)
+
+        const patch = parseProfilePatch(await request.json().catch(() => ({})))
+        if (!("set" in patch)) return bad(400, patch.error, { code: patch.code })
+
+        const cols = Object.keys(patch.set)
+        if (cols.length > 0) {
+          const assignments = cols.map((c, i) => `${c} = ?${i + 3}`).join(", ")
+          await env.DB.prepare(`UPDATE users SET updated_at = ?2, ${assignments} WHERE tg_id = ?1`)
+            .bind(tgId, Date.now(), ...cols.map((c) => patch.set[c]))
+            .run()
+        }
+        const user = await loadUser(env, tgId)
+        if (!user) return bad(404, "user not found")
+        return ok({ user: profileOf(user) })
+      }
+
       return bad(404, "route not found")
     } catch (e: any) {
       return bad(500, "worker error", { detail: String(e?.message || e) })
@@ -515,16 +1320,70 @@ export default {
 type MMReq = {
   mode: Mode
   deckSize: DeckSize
-  maxPlayers: 2 | 3 | 4
+  maxPlayers: MaxPlayers
+  rules?: RoomRules
+  teams?: boolean
   player: { id: string; name: string; username?: string }
 }
 
-type MMQueue = Record<string, string[]> // key -> array of tg_id
-type MMMatch = { roomId: string; expiresAt: number }
+type MMEntry = { id: string; rating: number; enqueuedAt: number; lastSeenAt: number }
+type MMBucket = { cfg: RoomConfig; entries: MMEntry[]; avgWaitMs?: number }
+type MMQueue = Record<string, MMBucket> // key -> waiting players
+type MMMatch = { roomId: string; expiresAt: number; enqueuedAt?: number } // enqueuedAt: kept for a requeue
+
+type LobbyServerMsg =
+  | { type: "MATCH_FOUND"; roomId: string; wsUrl: string }
+  | { type: "QUEUE"; status: "queued" | "idle"; [k: string]: any }
+  | { type: "ERROR"; code: string }
+
+const MM_BASE_WINDOW = 100 // rating gap accepted right away
+const MM_WIDEN_PER_SEC = 10 // gap grows by this much per second of waiting
+const MM_MAX_WINDOW = 1000
+const MM_TICK_MS = 5 * 1000 // alarm period while someone is queued
+const MM_ENTRY_TTL_MS = 30 * 1000 // queued players must POST/GET within this window
+const MM_BOT_FILL_SEC = 60 // default for env.MM_BOT_FILL_SEC
+
+function ratingWindow(e: MMEntry, now: number): number {
+  const waitedSec = Math.max(0, now - e.enqueuedAt) / 1000
+  return Math.min(MM_MAX_WINDOW, MM_BASE_WINDOW + MM_WIDEN_PER_SEC * waitedSec)
+}
+
+// closest-rated group of `need` players whose spread every member currently accepts
+function pickGroup(entries: MMEntry[], need: number, now: number): MMEntry[] | null {
+  const sorted = entries.slice().sort((a, b) => a.rating - b.rating)
+  let best: MMEntry[] | null = null
+  let bestSpread = Infinity
+  for (let i = 0; i + need <= sorted.length; i++) {
+    const group = sorted.slice(i, i + need)
+    const spread = group[need - 1].rating - group[0].rating
+    if (spread >= bestSpread) continue
+    if (group.every((e) => spread <= ratingWindow(e, now))) {
+      best = group
+      bestSpread = spread
+    }
+  }
+  return best
+}
+
+// running average of how long matched players waited (feeds estimatedWaitSec)
+function trackWait(bucket: MMBucket, group: MMEntry[], now: number) {
+  for (const e of group) {
+    const waited = now - e.enqueuedAt
+    bucket.avgWaitMs = bucket.avgWaitMs === undefined ? waited : bucket.avgWaitMs * 0.8 + waited * 0.2
+  }
+}
+
+// bots roughly as strong as the people they fill in for
+function botLevelFor(rating: number): BotLevel {
+  if (rating < 1350) return "easy"
+  if (rating < 1650) return "normal"
+  return "hard"
+}
 
 export class MatchmakerDO {
   private state: DurableObjectState
   private env: Env
+  private revocationCheckedAt = 0 // in memory only, same as RoomDO
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state
@@ -532,88 +1391,403 @@ export class MatchmakerDO {
   }
 
   private async loadQueue(): Promise<MMQueue> {
-    return (await this.state.storage.get<MMQueue>("queue")) ?? {}
+    const q = (await this.state.storage.get<MMQueue>("queue")) ?? {}
+    // drop legacy `key -> tg_id[]` buckets
+    for (const k of Object.keys(q)) if (!q[k] || Array.isArray(q[k])) delete q[k]
+    return q
   }
   private async saveQueue(q: MMQueue) {
     await this.state.storage.put("queue", q)
   }
 
+  private botFillMs(): number {
+    const sec = Number(this.env.MM_BOT_FILL_SEC ?? MM_BOT_FILL_SEC)
+    return Number.isFinite(sec) && sec > 0 ? sec * 1000 : 0
+  }
+
+  // players only meet under the same house rules
   private keyOf(cfg: RoomConfig) {
-    return `${cfg.mode}:${cfg.deckSize}:${cfg.maxPlayers}`
+    const r = rulesOf(cfg)
+    return [
+      cfg.mode,
+      cfg.deckSize,
+      cfg.maxPlayers,
+      cfg.teams ? "teams" : "solo",
+      r.firstRoundLimit5 ? "f5" : "f6",
+      r.throwIn,
+      r.roundLimit,
+      r.transferShow ? "show" : "play",
+    ].join(":")
+  }
+
+  private async createRoom(cfg: RoomConfig, group: string[], entries: MMEntry[]): Promise<string> {
+    const roomId = crypto.randomUUID()
+    const expiresAt = Date.now() + 5 * 60 * 1000
+
+    for (const e of entries) {
+      await this.state.storage.put<MMMatch>(`match:${e.id}`, { roomId, expiresAt, enqueuedAt: e.enqueuedAt })
+    }
+
+    // init room
+    const stub = this.env.ROOM.get(this.env.ROOM.idFromName(roomId))
+    await stub.fetch("https://room/init", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        roomId,
+        config: cfg,
+        players: group,
+      }),
+    })
+    return roomId
+  }
+
+  // match every group that is currently acceptable; returns tg_id -> roomId
+  private async runMatching(queue: MMQueue): Promise<Record<string, string>> {
+    const matched: Record<string, string> = {}
+    const now = Date.now()
+    const online = this.lobbyIds()
+    const fillMs = this.botFillMs()
+
+    for (const key of Object.keys(queue)) {
+      const bucket = queue[key]
+      // players who stopped polling (and have no lobby socket) are gone; don't match them into dead rooms
+      bucket.entries = bucket.entries.filter(
+        (e) => online.has(e.id) || (e.lastSeenAt ?? e.enqueuedAt) + MM_ENTRY_TTL_MS > now
+      )
+
+      while (bucket.entries.length >= bucket.cfg.maxPlayers) {
+        const group = pickGroup(bucket.entries, bucket.cfg.maxPlayers, now)
+        if (!group) break
+        const ids = group.map((e) => e.id)
+        bucket.entries = bucket.entries.filter((e) => !ids.includes(e.id))
+        trackWait(bucket, group, now)
+        const seats = bucket.cfg.teams ? balancedTeams(group) : ids
+        const roomId = await this.createRoom(bucket.cfg, seats, group)
+        for (const id of ids) matched[id] = roomId
+      }
+
+      // thin queue: whoever waited long enough plays now, bots take the free seats
+      while (fillMs > 0 && bucket.entries.length > 0) {
+        const oldest = bucket.entries.reduce((a, b) => (b.enqueuedAt < a.enqueuedAt ? b : a))
+        if (now - oldest.enqueuedAt < fillMs) break
+        const gap = ratingWindow(oldest, now)
+        const group = [oldest, ...bucket.entries.filter((e) => e !== oldest && Math.abs(e.rating - oldest.rating) <= gap)]
+          .slice(0, bucket.cfg.maxPlayers - 1)
+        const ids = group.map((e) => e.id)
+        bucket.entries = bucket.entries.filter((e) => !ids.includes(e.id))
+        trackWait(bucket, group, now)
+
+        const level = botLevelFor(group.reduce((sum, e) => sum + e.rating, 0) / group.length)
+        const bots = Array.from({ length: bucket.cfg.maxPlayers - group.length }, () =>
+          makeBotId(level, crypto.randomUUID().slice(0, 8))
+        )
+        const seats = bucket.cfg.teams
+          ? balancedTeams([...group, ...bots.map((id) => ({ id, rating: BOT_RATING[level] }))])
+          : [...ids, ...bots]
+        const roomId = await this.createRoom(bucket.cfg, seats, group)
+        for (const id of ids) matched[id] = roomId
+      }
+      if (bucket.entries.length === 0) delete queue[key]
+    }
+
+    await this.saveQueue(queue)
+    await this.scheduleTick(queue)
+    this.pushLobby(queue, matched)
+    return matched
+  }
+
+  // windows widen with time, so re-check on an alarm instead of waiting for the next request
+  private async scheduleTick(queue: MMQueue) {
+    const waiting = Object.values(queue).some((b) => b.entries.length > 0)
+    if (!waiting) {
+      await this.state.storage.deleteAlarm()
+      return
+    }
+    const cur = await this.state.storage.getAlarm()
+    if (cur === null) await this.state.storage.setAlarm(Date.now() + MM_TICK_MS)
+  }
+
+  private findEntry(queue: MMQueue, tgId: string): { key: string; bucket: MMBucket; entry: MMEntry } | null {
+    for (const [key, bucket] of Object.entries(queue)) {
+      const entry = bucket.entries.find((e) => e.id === tgId)
+      if (entry) return { key, bucket, entry }
+    }
+    return null
+  }
+
+  private async getMatch(tgId: string): Promise<MMMatch | null> {
+    const m = await this.state.storage.get<MMMatch>(`match:${tgId}`)
+    return m && m.expiresAt > Date.now() ? m : null
+  }
+
+  // GET /api/matchmaking: refreshes the heartbeat and reports queue position
+  private async onStatus(tgId: string) {
+    const existing = await this.getMatch(tgId)
+    if (existing) {
+      return ok({ status: "matched", roomId: existing.roomId, wsUrl: `/ws/${existing.roomId}` })
+    }
+
+    const queue = await this.loadQueue()
+    const found = this.findEntry(queue, tgId)
+    if (!found) return ok({ status: "idle" })
+
+    const now = Date.now()
+    found.entry.lastSeenAt = now
+    await this.saveQueue(queue)
+
+    return ok(this.statusOf(found.bucket, found.entry, now))
+  }
+
+  private statusOf(bucket: MMBucket, entry: MMEntry, now: number) {
+    const byAge = bucket.entries.slice().sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+    const waitedMs = now - entry.enqueuedAt
+    return {
+      status: "queued" as const,
+      position: byAge.findIndex((e) => e.id === entry.id) + 1,
+      queueSize: bucket.entries.length,
+      needPlayers: bucket.cfg.maxPlayers,
+      waitedSec: Math.round(waitedMs / 1000),
+      estimatedWaitSec:
+        bucket.avgWaitMs === undefined ? null : Math.max(0, Math.round((bucket.avgWaitMs - waitedMs) / 1000)),
+      rating: Math.round(entry.rating),
+    }
+  }
+
+  /* ---- lobby websockets (hibernatable, same as RoomDO) ---- */
+
+  private lobbyAttach(ws: WebSocket): WSAttach {
+    try {
+      return (ws.deserializeAttachment() as WSAttach) || {}
+    } catch {
+      return {}
+    }
+  }
+
+  private lobbyIdOf(ws: WebSocket): string | undefined {
+    return this.lobbyAttach(ws).tgId
+  }
+
+  private sendLobby(ws: WebSocket, msg: LobbyServerMsg) {
+    try {
+      ws.send(JSON.stringify(msg))
+    } catch {}
+  }
+
+  private lobbyIds(): Set<string> {
+    const ids = new Set<string>()
+    for (const ws of this.state.getWebSockets()) {
+      const id = this.lobbyIdOf(ws)
+      if (id) ids.add(id)
+    }
+    return ids
+  }
+
+  // MATCH_FOUND to every member of a new group, fresh position to everyone still waiting
+  private pushLobby(queue: MMQueue, matched: Record<string, string>) {
+    const now = Date.now()
+    for (const ws of this.state.getWebSockets()) {
+      const tgId = this.lobbyIdOf(ws)
+      if (!tgId) continue
+      const roomId = matched[tgId]
+      if (roomId) {
+        this.sendLobby(ws, { type: "MATCH_FOUND", roomId, wsUrl: `/ws/${roomId}` })
+        continue
+      }
+      const found = this.findEntry(queue, tgId)
+      if (found) this.sendLobby(ws, { type: "QUEUE", ...this.statusOf(found.bucket, found.entry, now) })
+    }
+  }
+
+  // DELETE /api/matchmaking
+  private async onCancel(tgId: string) {
+    const queue = await this.loadQueue()
+    const found = this.findEntry(queue, tgId)
+    if (!found) {
+      const existing = await this.getMatch(tgId)
+      if (existing) {
+        return ok({ status: "matched", roomId: existing.roomId, wsUrl: `/ws/${existing.roomId}` })
+      }
+      return ok({ status: "idle" })
+    }
+
+    found.bucket.entries = found.bucket.entries.filter((e) => e.id !== tgId)
+    if (found.bucket.entries.length === 0) delete queue[found.key]
+    await this.saveQueue(queue)
+    await this.scheduleTick(queue)
+    this.pushLobby(queue, {})
+    return ok({ status: "cancelled" })
+  }
+
+  // from RoomDO: ready check failed, the players who showed up go back in line
+  // and the no-shows just lose the match (they have to search again)
+  private async onRequeue(cfg: RoomConfig, players: string[], dropped: string[]) {
+    for (const id of dropped) await this.state.storage.delete(`match:${id}`)
+
+    const queue = await this.loadQueue()
+    const key = this.keyOf(cfg)
+    const bucket = queue[key] ?? { cfg, entries: [] }
+    const now = Date.now()
+
+    // back in line where they were: the wait so far still counts for the rating window and queue order
+    for (const id of players) {
+      const match = await this.state.storage.get<MMMatch>(`match:${id}`)
+      await this.state.storage.delete(`match:${id}`)
+      if (this.findEntry(queue, id)) continue
+      const rating = await getRating(this.env, id, cfg.mode, cfg.deckSize)
+      bucket.entries.push({ id, rating, enqueuedAt: match?.enqueuedAt ?? now, lastSeenAt: now })
+    }
+    if (bucket.entries.length > 0) queue[key] = bucket
+
+    await this.runMatching(queue)
+    return ok({ requeued: players.length })
   }
 
   async fetch(request: Request) {
     const url = new URL(request.url)
-    if (url.pathname !== "/match" || request.method !== "POST") return bad(404, "not found")
+
+    if (url.pathname === "/lobby") {
+      if (request.headers.get("Upgrade") !== "websocket") return bad(426, "Expected websocket")
+      const pair = new WebSocketPair()
+      this.state.acceptWebSocket(pair[1])
+      pair[1].serializeAttachment({})
+      return new Response(null, { status: 101, webSocket: pair[0] })
+    }
+
+    if (request.method !== "POST") return bad(404, "not found")
+
+    // internal (RoomDO only; the worker never forwards this path)
+    if (url.pathname === "/requeue") {
+      const body = (await request.json().catch(() => ({}))) as { config?: unknown; players?: unknown; dropped?: unknown }
+      const players = Array.isArray(body.players) ? body.players.map(String) : []
+      const dropped = Array.isArray(body.dropped) ? body.dropped.map(String) : []
+      return this.onRequeue(parseRoomConfig(body.config), players, dropped)
+    }
+
+    if (!["/match", "/status", "/cancel"].includes(url.pathname)) return bad(404, "not found")
 
     const token = getBearer(request)
-    const session = await verifySession(token, this.env.APP_SECRET)
-    if (!session) return bad(401, "invalid session")
-    if (session.exp < Date.now()) return bad(401, "session expired")
+    const auth = await checkSession(this.env, token)
+    if (!auth.ok) return sessionError(auth.code)
+    const session = auth.session
+
+    if (url.pathname === "/status") return this.onStatus(String(session.tg_id))
+    if (url.pathname === "/cancel") return this.onCancel(String(session.tg_id))
 
     const body = (await request.json().catch(() => ({}))) as MMReq
-    const cfg: RoomConfig = {
-      mode: body.mode === "perevodnoy" ? "perevodnoy" : "podkidnoy",
-      deckSize: body.deckSize === 24 ? 24 : 36,
-      maxPlayers: body.maxPlayers === 3 ? 3 : body.maxPlayers === 4 ? 4 : 2,
-    }
+    const cfg = parseRoomConfig(body)
 
     const tgId = String(session.tg_id)
 
     // If already matched (stored), return it
-    const existing = await this.state.storage.get<MMMatch>(`match:${tgId}`)
-    if (existing && existing.expiresAt > Date.now()) {
+    const existing = await this.getMatch(tgId)
+    if (existing) {
       return ok({ status: "matched", roomId: existing.roomId, wsUrl: `/ws/${existing.roomId}` })
     }
 
+    const rating = await getRating(this.env, tgId, cfg.mode, cfg.deckSize)
+
     const queue = await this.loadQueue()
     const key = this.keyOf(cfg)
-    const arr = queue[key] ?? []
 
-    // remove duplicates and dead matches
-    const uniq = arr.filter((x) => x && x !== tgId)
-    uniq.push(tgId)
-    queue[key] = uniq
-    await this.saveQueue(queue)
+    // one queue per player: switching config leaves the old one
+    for (const [k, b] of Object.entries(queue)) {
+      if (k === key) continue
+      b.entries = b.entries.filter((e) => e.id !== tgId)
+      if (b.entries.length === 0) delete queue[k]
+    }
+
+    const bucket = queue[key] ?? { cfg, entries: [] }
+
+    // re-posting keeps the original enqueue time (and so the widened window)
+    const prev = bucket.entries.find((e) => e.id === tgId)
+    bucket.entries = bucket.entries.filter((e) => e && e.id !== tgId)
+    bucket.entries.push({ id: tgId, rating, enqueuedAt: prev?.enqueuedAt ?? Date.now(), lastSeenAt: Date.now() })
+    queue[key] = bucket
+
+    const matched = await this.runMatching(queue)
+    if (matched[tgId]) {
+      const roomId = matched[tgId]
+      return ok({ status: "matched", roomId, wsUrl: `/ws/${roomId}` })
+    }
+
+    return ok({ status: "queued", rating: Math.round(rating) })
+  }
 
-    // Try to match first N
-    const need = cfg.maxPlayers
+  // logout / admin revoke: close lobby sockets whose session is on the revocation list (see RoomDO).
+  // Runs on the matching tick, so only while someone is queued; idle sockets only send JOIN, which checks the session
+  private async closeRevokedLobbySockets() {
     const now = Date.now()
+    if (now - this.revocationCheckedAt < REVOCATION_CHECK_MS) return
+    this.revocationCheckedAt = now
+    const sockets = this.state.getWebSockets().filter((ws) => this.lobbyAttach(ws).jti)
+    let revoked: Set<string>
+    try {
+      revoked = await revokedJtis(this.env, [...new Set(sockets.map((ws) => this.lobbyAttach(ws).jti!))])
+    } catch {
+      return // D1 hiccup: the next tick checks again
+    }
+    for (const ws of sockets) {
+      if (!revoked.has(this.lobbyAttach(ws).jti!)) continue
+      ws.serializeAttachment({})
+      this.sendLobby(ws, { type: "ERROR", code: "SESSION_REVOKED" })
+      try {
+        ws.close(1008, "Session revoked")
+      } catch {}
+    }
+  }
 
-    const refreshed = await this.loadQueue()
-    const cur = refreshed[key] ?? []
+  async alarm() {
+    await this.closeRevokedLobbySockets()
+    await this.runMatching(await this.loadQueue())
+  }
 
-    if (cur.length >= need) {
-      const group = cur.slice(0, need)
-      refreshed[key] = cur.slice(need)
-      await this.saveQueue(refreshed)
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    let msg: { type?: string; sessionToken?: string }
+    try {
+      msg = JSON.parse(typeof message === "string" ? message : new TextDecoder().decode(message))
+    } catch {
+      return this.sendLobby(ws, { type: "ERROR", code: "BAD_JSON" })
+    }
 
-      const roomId = crypto.randomUUID()
-      const expiresAt = now + 5 * 60 * 1000
+    if (msg.type !== "JOIN") return this.sendLobby(ws, { type: "ERROR", code: "UNKNOWN_MSG" })
 
-      for (const pid of group) {
-        await this.state.storage.put<MMMatch>(`match:${pid}`, { roomId, expiresAt })
-      }
+    const auth = await checkSession(this.env, String(msg.sessionToken ?? ""))
+    if (!auth.ok) {
+      this.sendLobby(ws, { type: "ERROR", code: auth.code })
+      try {
+        ws.close(1008, "Bad session")
+      } catch {}
+      return
+    }
 
-      // init room
-      const stub = this.env.ROOM.get(this.env.ROOM.idFromName(roomId))
-      await stub.fetch("https://room/init", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          roomId,
-          config: cfg,
-          players: group,
-        }),
-      })
+    const tgId = String(auth.session.tg_id)
+    ws.serializeAttachment({ tgId, jti: auth.session.jti })
+    const queue = await this.loadQueue()
 
-      // If current user in matched group => immediate response
-      if (group.includes(tgId)) {
-        return ok({ status: "matched", roomId, wsUrl: `/ws/${roomId}` })
-      }
+    // the match may have been made before the socket opened
+    const existing = await this.getMatch(tgId)
+    if (existing) {
+      return this.sendLobby(ws, { type: "MATCH_FOUND", roomId: existing.roomId, wsUrl: `/ws/${existing.roomId}` })
     }
+    const found = this.findEntry(queue, tgId)
+    if (found) this.sendLobby(ws, { type: "QUEUE", ...this.statusOf(found.bucket, found.entry, Date.now()) })
+    else this.sendLobby(ws, { type: "QUEUE", status: "idle" })
+  }
+
+  // socket gone: fall back to the heartbeat TTL from now on
+  async webSocketClose(ws: WebSocket) {
+    const tgId = this.lobbyIdOf(ws)
+    if (!tgId) return
+    const queue = await this.loadQueue()
+    const found = this.findEntry(queue, tgId)
+    if (!found) return
+    found.entry.lastSeenAt = Date.now()
+    await this.saveQueue(queue)
+  }
 
-    return ok({ status: "queued" })
+  async webSocketError(ws: WebSocket, err: unknown) {
+    await this.webSocketClose(ws)
   }
 }
 
@@ -624,23 +1798,51 @@ type ClientMsg =
   | { type: "ATTACK"; card: Card }
   | { type: "DEFEND"; attackIndex: number; card: Card }
   | { type: "TRANSFER"; card: Card }
+  | { type: "TRANSFER_SHOW"; card: Card } // perevodnoy + rules.transferShow: the trump stays in hand
   | { type: "TAKE" }
   | { type: "BEAT" }
   | { type: "PASS" }
+  | { type: "READY" } // lobby: seat is here and wants to play
+  | { type: "START" } // private room, host only
+  | { type: "LEAVE" } // private room lobby
   | { type: string; [k: string]: any }
 
 type ServerMsg =
   | { type: "STATE"; state: any }
   | { type: "INFO"; message: string }
   | { type: "ERROR"; code: string; detail?: string; [k: string]: any }
+  | { type: "PRESENCE"; tgId: string; name: string | null; status: PresenceStatus; since: number; graceUntil: number | null }
+  | { type: "REQUEUED"; removed: string[] } // ready check failed, back to matchmaking
+  | { type: "TRUMP_SHOWN"; by: string; byName: string | null; card: Card; defender: string; defenderName: string | null } // everyone sees the shown trump
+
+type PresenceStatus = "connected" | "disconnected" | "forfeited"
+type SeatPresence = { status: PresenceStatus; since: number }
+
+// pre-game seats: private rooms fill up before the host deals,
+// matched rooms deal as soon as every seat is READY
+type RoomLobby = {
+  kind: "private" | "matched"
+  hostId: string | null // private only
+  code: string | null // private only
+  seats: string[]
+  ready: string[]
+  readyDeadline: number | null // matched only; no-shows are dropped when it passes
+  createdAt: number
+}
 
 type RoomPersisted = {
   roomId: string
   config: RoomConfig
-  game: GameState
+  game: GameState | null // null while in the lobby
+  lobby: RoomLobby | null
+  presence: Record<string, SeatPresence> // only seats that joined at least once
+  resultSaved?: boolean
+  resultRetryAt?: number // D1 write failed: the alarm tries again at this time
+  practice?: boolean // vs bots: nothing goes to D1 (no history, no ratings)
+  names?: Record<string, string> // display names of seated players, read from D1 when they join
 }
 
-type WSAttach = { tgId?: string }
+type WSAttach = { tgId?: string; jti?: string }
 
 export class RoomDO {
   private state: DurableObjectState
@@ -648,6 +1850,7 @@ export class RoomDO {
   private loaded = false
 
   private room: RoomPersisted | null = null
+  private revocationCheckedAt = 0 // in memory only: a woken room checks on the first message
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state
@@ -657,6 +1860,13 @@ export class RoomDO {
   private async loadOnce() {
     if (this.loaded) return
     this.room = (await this.state.storage.get<RoomPersisted>("room")) ?? null
+    if (this.room && !this.room.presence) this.room.presence = {}
+    if (this.room && !this.room.lobby) this.room.lobby = null
+    if (this.room?.lobby) {
+      this.room.lobby.kind ??= "private"
+      this.room.lobby.ready ??= []
+      this.room.lobby.readyDeadline ??= null
+    }
     this.loaded = true
   }
 
@@ -693,399 +1903,491 @@ export class RoomDO {
     } catch {}
   }
 
-  private buildStateFor(tgId: string) {
-    if (!this.room) return { phase: "missing" }
-    const g = this.room.game
+  // null until the player first joins (and always for bots): clients fall back to their own label
+  private nameOf(id: string): string | null {
+    return this.room?.names?.[id] ?? null
+  }
+
+  // re-read on every join, so a rename shows up the next time the player connects
+  private async rememberName(tgId: string) {
+    const user = await loadUser(this.env, tgId).catch(() => null)
+    if (!this.room || !user) return
+    const name = displayNameOf(user)
+    if (this.room.names?.[tgId] === name) return
+    this.room.names = { ...this.room.names, [tgId]: name }
+    await this.persist()
+  }
+
+  // bots never open a socket, they are always at the table
+  private presenceOf(id: string): PresenceStatus {
+    if (isBotId(id)) return "connected"
+    return this.room?.presence[id]?.status ?? "disconnected"
+  }
+
+  // seated players: dealt order once the game runs, lobby seats before that
+  private seats(): string[] {
+    if (!this.room) return []
+    return this.room.game ? this.room.game.order : this.room.lobby?.seats ?? []
+  }
+
+  // anyone joined on a socket without a seat is watching
+  private viewerIds(exclude?: WebSocket): Set<string> {
+    const seats = this.seats()
+    const ids = new Set<string>()
+    for (const ws of this.state.getWebSockets()) {
+      if (ws === exclude) continue
+      const id = this.getAttach(ws).tgId
+      if (id && !seats.includes(id)) ids.add(id)
+    }
+    return ids
+  }
+
+  private buildLobbyStateFor(tgId: string) {
+    const room = this.room!
+    const l = room.lobby!
+    return {
+      roomId: room.roomId,
+      phase: "lobby" as const,
+      config: room.config,
+      players: l.seats,
+      you: tgId,
+      kind: l.kind,
+      host: l.hostId,
+      code: l.code,
+      others: l.seats
+        .filter((id) => id !== tgId)
+        .map((id) => ({
+          id,
+          active: true,
+          count: 0,
+          presence: this.presenceOf(id),
+          bot: botLevelOf(id),
+          name: this.nameOf(id),
+          // join order decides the teams: initGame partners the first two seats
+          team: room.config.teams ? (l.seats.indexOf(id) < 2 ? 0 : 1) : null,
+        })),
+      ready: l.ready,
+      readyDeadline: l.readyDeadline,
+      viewers: this.viewerIds().size,
+      serverNow: Date.now(),
+      canStart: l.kind === "private" && tgId === l.hostId && l.seats.length >= minSeats(room.config) && this.allReady(l, tgId),
+      allowed: { attack: false, defend: false, transfer: false, transferShow: false, take: false, beat: false, pass: false },
+      moves: { attack: [], defend: [], transfer: [], transferShow: [] },
+    }
+  }
+
+  private buildStateFor(tgId: string) {
+    if (!this.room) return { phase: "missing" }
+    if (!this.room.game) return this.room.lobby ? this.buildLobbyStateFor(tgId) : { phase: "missing" }
+    const g = this.room.game
+
+    const youHand = (g.hands[tgId] || []).slice()
+    const others = g.order
+      .filter((id) => id !== tgId)
+      .map((id) => ({
+        id,
+        active: g.active[id],
+        count: (g.hands[id] || []).length,
+        presence: this.presenceOf(id),
+        bot: botLevelOf(id),
+        name: this.nameOf(id),
+        team: g.teams?.[id] ?? null,
+      }))
+
+    const allowed = allowedActions(g, tgId)
+    const moves = legalMoves(g, tgId)
+
+    return {
+      roomId: g.roomId,
+      phase: g.phase,
+      config: g.config,
+      players: g.order,
+      you: tgId,
+      attacker: g.attackerId,
+      defender: g.defenderId,
+      trumpSuit: g.trumpSuit,
+      trumpCard: g.trumpCard,
+      deckCount: g.deck.length,
+      yourHand: youHand,
+      others,
+      table: g.table,
+      discardCount: g.discard.length,
+      takeDeclared: g.takeDeclared,
+      trumpShown: g.trumpShown ?? null,
+      passed: g.passed,
+      allowed,
+      moves,
+      updatedAt: g.updatedAt,
+      loser: g.loser,
+      teams: g.teams ?? null,
+      loserTeam: g.loserTeam ?? null,
+      turnDeadline: g.turnDeadline ?? null,
+      fairness: this.fairnessOf(g),
+      practice: !!this.room!.practice,
+      viewers: this.viewerIds().size,
+      serverNow: Date.now(),
+    }
+  }
+
+  // commitment from the deal on; the seed only once nothing is left to hide
+  private fairnessOf(g: GameState) {
+    return { commitment: g.commitment ?? null, seed: g.phase === "finished" ? g.seed ?? null : null }
+  }
 
-    const youHand = (g.hands[tgId] || []).slice()
-    const others = g.order
-      .filter((id) => id !== tgId)
-      .map((id) => ({ id, active: g.active[id], count: (g.hands[id] || []).length }))
-
-    const attackers = listAttackers(g.order, g.active, g.defenderId)
-    const needDefense = isNeedDefense(g.table)
-    const ranksOnTable = tableRanks(g.table)
-
-    const allowed = {
-      attack: false,
-      defend: false,
-      transfer: false,
-      take: false,
-      beat: false,
-      pass: false,
-    }
-
-    if (g.phase === "playing" && g.active[tgId]) {
-      if (tgId === g.defenderId) {
-        if (!g.takeDeclared) {
-          allowed.defend = needDefense
-          allowed.take = g.table.length > 0
-          allowed.transfer =
-            g.config.mode === "perevodnoy" &&
-            g.table.length > 0 &&
-            !g.table.some((p) => p.d) &&
-            (() => {
-              // defender must have a card with rank matching any attack rank
-              const ranks = attackRanksOnly(g.table)
-              return youHand.some((c) => {
-                const p = parseCard(c)
-                return !!p && ranks.has(p.rank)
-              })
-            })()
-        }
-        allowed.beat = isFullyDefended(g.table) && attackers.every((id) => g.passed.includes(id))
-      } else {
-        const hasPassed = g.passed.includes(tgId)
-        allowed.pass = g.table.length > 0 && !hasPassed
-
-        if (!hasPassed) {
-          if (g.table.length === 0) {
-            allowed.attack = tgId === g.attackerId
-          } else {
-            // can always throw matching ranks on table; and also after TAKE declared
-            allowed.attack = youHand.some((c) => {
-              const p = parseCard(c)
-              return !!p && ranksOnTable.has(p.rank)
-            })
-            // if defender hasn't declared TAKE and there are undefended cards, UI still may attack (your rule),
-            // so we do NOT forbid it here.
-          }
-        }
-      }
+  // watchers see the table and hand sizes, never a card in anyone's hand
+  private buildSpectatorState(tgId: string) {
+    if (!this.room) return { phase: "missing" }
+    if (!this.room.game) {
+      return this.room.lobby ? { ...this.buildLobbyStateFor(tgId), spectator: true } : { phase: "missing" }
     }
-
+    const g = this.room.game
     return {
       roomId: g.roomId,
       phase: g.phase,
       config: g.config,
       players: g.order,
       you: tgId,
+      spectator: true,
       attacker: g.attackerId,
       defender: g.defenderId,
       trumpSuit: g.trumpSuit,
       trumpCard: g.trumpCard,
       deckCount: g.deck.length,
-      yourHand: youHand,
-      others,
+      yourHand: [],
+      others: g.order.map((id) => ({
+        id,
+        active: g.active[id],
+        count: (g.hands[id] || []).length,
+        presence: this.presenceOf(id),
+        bot: botLevelOf(id),
+        name: this.nameOf(id),
+        team: g.teams?.[id] ?? null,
+      })),
       table: g.table,
       discardCount: g.discard.length,
       takeDeclared: g.takeDeclared,
+      trumpShown: g.trumpShown ?? null,
       passed: g.passed,
-      allowed,
+      allowed: { attack: false, defend: false, transfer: false, transferShow: false, take: false, beat: false, pass: false },
+      moves: { attack: [], defend: [], transfer: [], transferShow: [] },
       updatedAt: g.updatedAt,
       loser: g.loser,
+      teams: g.teams ?? null,
+      loserTeam: g.loserTeam ?? null,
+      turnDeadline: g.turnDeadline ?? null,
+      fairness: this.fairnessOf(g),
+      practice: !!this.room!.practice,
+      viewers: this.viewerIds().size,
+      serverNow: Date.now(),
     }
   }
 
+  private stateFor(tgId: string) {
+    return this.seats().includes(tgId) ? this.buildStateFor(tgId) : this.buildSpectatorState(tgId)
+  }
+
   private broadcastStates() {
     for (const ws of this.state.getWebSockets()) {
       const a = this.getAttach(ws)
       const tgId = a.tgId
       if (!tgId) continue
-      this.send(ws, { type: "STATE", state: this.buildStateFor(tgId) })
+      this.send(ws, { type: "STATE", state: this.stateFor(tgId) })
     }
   }
 
-  private validateAttack(g: GameState, playerId: string, card: Card): VResult {
-    if (!g.active[playerId]) return { ok: false, code: "NOT_ACTIVE" }
-    if (playerId === g.defenderId) return { ok: false, code: "DEFENDER_CANNOT_ATTACK" }
-    if (g.passed.includes(playerId)) return { ok: false, code: "YOU_PASSED" }
-    if (!g.hands[playerId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
-    if (g.table.length >= g.roundLimit) return { ok: false, code: "ROUND_LIMIT" }
-
-    if (g.table.length === 0) {
-      if (playerId !== g.attackerId) return { ok: false, code: "ONLY_MAIN_ATTACKER_STARTS" }
-      return { ok: true }
+  private sendErrTo(tgId: string, code: string, detail?: string) {
+    for (const ws of this.state.getWebSockets()) {
+      const a = this.getAttach(ws)
+      if (a.tgId === tgId) this.send(ws, { type: "ERROR", code, detail })
     }
-
-    const p = parseCard(card)
-    if (!p) return { ok: false, code: "BAD_CARD" }
-    const ranks = tableRanks(g.table)
-    if (!ranks.has(p.rank)) return { ok: false, code: "RANK_NOT_ON_TABLE" }
-    return { ok: true }
-  }
-
-  private validateDefend(g: GameState, card: Card, attackIndex: number): VResult {
-    if (attackIndex < 0 || attackIndex >= g.table.length) return { ok: false, code: "BAD_ATTACK_INDEX" }
-    const pair = g.table[attackIndex]
-    if (pair.d) return { ok: false, code: "ALREADY_DEFENDED" }
-    if (!g.hands[g.defenderId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
-    if (!cardBeats(card, pair.a, g.trumpSuit)) return { ok: false, code: "DOES_NOT_BEAT" }
-    return { ok: true }
-  }
-
-  private validateTransfer(g: GameState, card: Card): VResult {
-    if (g.config.mode !== "perevodnoy") return { ok: false, code: "MODE_NOT_PEREVODNOY" }
-    if (g.takeDeclared) return { ok: false, code: "TAKE_ALREADY_DECLARED" }
-    if (g.table.length === 0) return { ok: false, code: "NOTHING_TO_TRANSFER" }
-    if (g.table.some((p) => p.d)) return { ok: false, code: "CANNOT_TRANSFER_AFTER_DEFEND" }
-    if (!g.hands[g.defenderId].includes(card)) return { ok: false, code: "CARD_NOT_IN_HAND" }
-
-    const p = parseCard(card)
-    if (!p) return { ok: false, code: "BAD_CARD" }
-    const ranks = attackRanksOnly(g.table)
-    if (!ranks.has(p.rank)) return { ok: false, code: "RANK_MUST_MATCH_ATTACK" }
-    return { ok: true }
-  }
-
-  private resetRoundVars(g: GameState) {
-    g.passed = []
-    g.takeDeclared = false
-    g.roundLimit = g.hands[g.defenderId].length
   }
 
-  private endRoundTake(g: GameState) {
-    const taken: Card[] = []
-    for (const p of g.table) {
-      taken.push(p.a)
-      if (p.d) taken.push(p.d)
-    }
-    g.hands[g.defenderId].push(...taken)
-    g.hands[g.defenderId].sort(sortBySuitThenRank)
-    g.table = []
-
-    // draw order: attacker -> around -> defender last
-    const drawOrder: string[] = []
-    let cur = g.attackerId
-    drawOrder.push(cur)
-    while (true) {
-      const nxt = nextActiveId(g.order, g.active, cur)
-      if (nxt === g.defenderId) {
-        drawOrder.push(nxt)
-        break
-      }
-      drawOrder.push(nxt)
-      cur = nxt
-      if (drawOrder.length > g.order.length + 2) break
+  // every accepted action restarts the clock; one alarm per room is enough
+  private async armTurnTimer() {
+    const g = this.room?.game
+    if (!g) return
+    if (g.phase !== "playing") {
+      g.turnDeadline = null
+      await this.scheduleAlarm()
+      return
     }
-    drawUpTo6(g, drawOrder)
-
-    const oldDef = g.defenderId
-    const newDef = nextActiveId(g.order, g.active, oldDef)
-    g.defenderId = newDef
-
-    pruneOutPlayers(g)
-    if (g.phase === "finished") return
-
-    if (!g.active[g.attackerId]) g.attackerId = nextActiveId(g.order, g.active, g.attackerId)
-    if (!g.active[g.defenderId]) g.defenderId = nextActiveId(g.order, g.active, g.defenderId)
-    if (g.defenderId === g.attackerId) g.defenderId = nextActiveId(g.order, g.active, g.attackerId)
-
-    this.resetRoundVars(g)
-    g.updatedAt = Date.now()
+    g.turnDeadline = Date.now() + TURN_TIMEOUT_MS
+    await this.scheduleAlarm()
   }
 
-  private endRoundBeat(g: GameState) {
-    for (const p of g.table) {
-      g.discard.push(p.a)
-      if (p.d) g.discard.push(p.d)
-    }
-    g.table = []
-
-    const drawOrder: string[] = []
-    let cur = g.attackerId
-    drawOrder.push(cur)
-    while (true) {
-      const nxt = nextActiveId(g.order, g.active, cur)
-      if (nxt === g.defenderId) {
-        drawOrder.push(nxt)
-        break
+  // single DO alarm = earliest of turn deadline, next bot move, seat grace expiries, the ready deadline,
+  // a pending match-history retry and the next revocation sweep
+  private async scheduleAlarm() {
+    if (!this.room) return
+    const g = this.room.game
+    const times: number[] = []
+    if (!g && this.room.lobby?.readyDeadline) times.push(this.room.lobby.readyDeadline)
+    if (g?.phase === "finished" && !this.room.resultSaved && this.room.resultRetryAt) times.push(this.room.resultRetryAt)
+    if (this.sweepsRevocations()) times.push((this.revocationCheckedAt || Date.now()) + REVOCATION_CHECK_MS)
+    if (g && g.phase === "playing") {
+      if (g.turnDeadline) times.push(g.turnDeadline)
+      if (this.nextBotMove()) times.push(g.updatedAt + BOT_DELAY_MS)
+      for (const [id, p] of Object.entries(this.room.presence)) {
+        if (p.status === "disconnected" && g.active[id]) times.push(p.since + RECONNECT_GRACE_MS)
       }
-      drawOrder.push(nxt)
-      cur = nxt
-      if (drawOrder.length > g.order.length + 2) break
     }
-    drawUpTo6(g, drawOrder)
-
-    const oldDef = g.defenderId
-    let newAtk = oldDef
-    let newDef = nextActiveId(g.order, g.active, oldDef)
-
-    pruneOutPlayers(g)
-    if (g.phase === "finished") return
+    if (times.length === 0) await this.state.storage.deleteAlarm()
+    else await this.state.storage.setAlarm(Math.min(...times))
+  }
 
-    if (!g.active[newAtk]) newAtk = nextActiveId(g.order, g.active, newAtk)
-    if (!g.active[newDef]) newDef = nextActiveId(g.order, g.active, newDef)
-    if (newDef === newAtk) newDef = nextActiveId(g.order, g.active, newAtk)
+  private broadcastPresence(tgId: string) {
+    const p = this.room?.presence[tgId]
+    if (!p) return
+    this.broadcast({
+      type: "PRESENCE",
+      tgId,
+      name: this.nameOf(tgId),
+      status: p.status,
+      since: p.since,
+      graceUntil: p.status === "disconnected" ? p.since + RECONNECT_GRACE_MS : null,
+    })
+  }
 
-    g.attackerId = newAtk
-    g.defenderId = newDef
-    this.resetRoundVars(g)
-    g.updatedAt = Date.now()
+  // timed sweeps only where a revoked player could still act: lobby or running game, people seated and connected.
+  // Everywhere else the next message from the socket triggers the check.
+  private sweepsRevocations(): boolean {
+    const room = this.room
+    if (!room || (room.game ? room.game.phase !== "playing" : !room.lobby)) return false
+    if (!this.seats().some((id) => !isBotId(id))) return false
+    return this.state.getWebSockets().some((ws) => this.getAttach(ws).jti)
   }
 
-  private sendErrTo(tgId: string, code: string, detail?: string) {
-    for (const ws of this.state.getWebSockets()) {
-      const a = this.getAttach(ws)
-      if (a.tgId === tgId) this.send(ws, { type: "ERROR", code, detail })
+  // logout / admin revoke: drop live sockets whose session is on the revocation list.
+  // Runs on incoming messages and from the alarm, at most once per REVOCATION_CHECK_MS, one D1 query per 100 sockets.
+  private async closeRevokedSockets() {
+    const now = Date.now()
+    if (now - this.revocationCheckedAt < REVOCATION_CHECK_MS) return
+    this.revocationCheckedAt = now
+    const sockets = this.state.getWebSockets().filter((ws) => this.getAttach(ws).jti)
+    let revoked: Set<string>
+    try {
+      revoked = await revokedJtis(this.env, [...new Set(sockets.map((ws) => this.getAttach(ws).jti!))])
+    } catch {
+      return // D1 hiccup: the next message or alarm checks again
+    }
+    if (revoked.size === 0) return
+    // detach every revoked socket first, so a second tab on the same session does not count as "still here"
+    const dropped = new Map<string, WebSocket>()
+    for (const ws of sockets) {
+      const { tgId, jti } = this.getAttach(ws)
+      if (!revoked.has(jti!)) continue
+      this.setAttach(ws, {})
+      dropped.set(tgId!, ws)
+      this.send(ws, { type: "ERROR", code: "SESSION_REVOKED" })
+      try {
+        ws.close(1008, "Session revoked")
+      } catch {}
     }
+    for (const [tgId, ws] of dropped) await this.markDisconnected(ws, tgId)
+    this.broadcastStates()
   }
 
-  private async onAttack(tgId: string, card: Card) {
+  private async markDisconnected(closing: WebSocket, tgId: string) {
     if (!this.room) return
-    const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    const v = this.validateAttack(g, tgId, card)
-    if (!v.ok) return this.sendErrTo(tgId, v.code)
-    removeCard(g.hands[tgId], card)
-    g.table.push({ a: card, d: null })
-    g.updatedAt = Date.now()
+    if (!this.seats().includes(tgId)) return
+    // another tab / socket of the same player is still alive
+    const stillHere = this.state
+      .getWebSockets()
+      .some((w) => w !== closing && this.getAttach(w).tgId === tgId)
+    if (stillHere) return
+
+    const prev = this.room.presence[tgId]
+    if (!prev || prev.status !== "connected") return
+
+    this.room.presence[tgId] = { status: "disconnected", since: Date.now() }
+    await this.scheduleAlarm()
     await this.persist()
+    this.broadcastPresence(tgId)
     this.broadcastStates()
   }
 
-  private async onDefend(tgId: string, attackIndex: number, card: Card) {
-    if (!this.room) return
-    const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    if (tgId !== g.defenderId) return this.sendErrTo(tgId, "ONLY_DEFENDER_CAN_DEFEND")
-    if (g.takeDeclared) return this.sendErrTo(tgId, "TAKE_ALREADY_DECLARED")
-
-    const idx = Number(attackIndex)
-    if (!Number.isInteger(idx)) return this.sendErrTo(tgId, "BAD_ATTACK_INDEX")
-
-    const v = this.validateDefend(g, card, idx)
-    if (!v.ok) return this.sendErrTo(tgId, v.code)
-
-    removeCard(g.hands[g.defenderId], card)
-    g.table[idx].d = card
-    g.updatedAt = Date.now()
-    await this.persist()
-    this.broadcastStates()
+  // grace window over: the seat is lost, and an active player loses the game
+  private forfeitSeat(tgId: string, now: number) {
+    const room = this.room
+    if (!room?.game) return
+    room.presence[tgId] = { status: "forfeited", since: now }
+    room.game = forfeitPlayer(room.game, tgId, now).state
   }
 
-  private async onTransfer(tgId: string, card: Card) {
-    if (!this.room) return
+  // write the finished game to D1 exactly once (match history)
+  private async recordResultIfFinished() {
+    if (!this.room || this.room.resultSaved || this.room.practice) return
     const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    if (tgId !== g.defenderId) return this.sendErrTo(tgId, "ONLY_DEFENDER_CAN_TRANSFER")
+    if (!g || g.phase !== "finished") return
 
-    const v = this.validateTransfer(g, card)
-    if (!v.ok) return this.sendErrTo(tgId, v.code)
-
-    removeCard(g.hands[g.defenderId], card)
-    g.table.push({ a: card, d: null })
+    const forfeited = Object.entries(this.room.presence)
+      .filter(([, p]) => p.status === "forfeited")
+      .map(([id]) => id)
+    try {
+      await ensureSchema(this.env)
+      await saveFinishedGame(this.env, g, forfeited)
+      await updateRatings(this.env, g)
+      this.room.resultSaved = true
+    } catch {
+      // history inserts are idempotent and ratings go in one batch, so the alarm can simply try again
+      this.room.resultRetryAt = Date.now() + RESULT_RETRY_MS
+      await this.scheduleAlarm()
+    }
+    await this.persist()
+  }
 
-    const oldDef = g.defenderId
-    const newDef = nextActiveId(g.order, g.active, oldDef)
-    g.attackerId = oldDef
-    g.defenderId = newDef
-    g.roundLimit = g.hands[newDef].length
-    g.passed = []
-    g.takeDeclared = false
-    g.updatedAt = Date.now()
+  // every gameplay message: the engine decides, RoomDO persists and broadcasts
+  private async onAction(tgId: string, action: Action) {
+    const g = this.room?.game
+    if (!this.room || !g) return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
+    const r = applyAction(g, tgId, action, Date.now())
+    if (!r.ok) return this.sendErrTo(tgId, r.code)
 
+    this.room.game = r.state
+    await this.armTurnTimer()
     await this.persist()
+    for (const ev of r.events) {
+      if (ev.type === "TRANSFER_SHOW") {
+        const defender = ev.defender as string
+        this.broadcast({
+          type: "TRUMP_SHOWN",
+          by: ev.by!,
+          byName: this.nameOf(ev.by!),
+          card: ev.card as Card,
+          defender,
+          defenderName: this.nameOf(defender),
+        })
+      }
+    }
     this.broadcastStates()
+    await this.recordResultIfFinished()
   }
 
-  private async onTake(tgId: string) {
-    if (!this.room) return
-    const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    if (tgId !== g.defenderId) return this.sendErrTo(tgId, "ONLY_DEFENDER_CAN_TAKE")
-    if (g.table.length === 0) return this.sendErrTo(tgId, "NOTHING_ON_TABLE")
-    g.takeDeclared = true
-    g.passed = []
-    g.updatedAt = Date.now()
-    await this.persist()
-    this.broadcastStates()
+  // pass a seed to replay a known deal (engine bugs are reproducible from the revealed seed)
+  // teams: the first two players are partners against the last two; partners sit opposite
+  private async initGame(roomId: string, cfg: RoomConfig, players: string[], seed = newSeed()): Promise<GameState> {
+    if (cfg.teams) players = teamSeating(players)
+    const deck = await dealDeck(cfg.deckSize, seed)
+    const commitment = await deckCommitment(seed, deck)
+    return dealGame(roomId, cfg, players, deck, { seed, commitment, now: Date.now() })
   }
 
-  private async onPass(tgId: string) {
-    if (!this.room) return
-    const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    if (tgId === g.defenderId) return this.sendErrTo(tgId, "DEFENDER_CANNOT_PASS")
-    if (g.table.length === 0) return this.sendErrTo(tgId, "NOTHING_ON_TABLE")
+  // first bot seat (in seating order) that has something to do
+  private nextBotMove(): { id: string; action: Action } | null {
+    const g = this.room?.game
+    if (!g || g.phase !== "playing") return null
+    for (const id of g.order) {
+      if (!isBotId(id)) continue
+      const action = botMove(g, id)
+      if (action) return { id, action }
+    }
+    return null
+  }
 
-    if (!g.passed.includes(tgId)) g.passed.push(tgId)
-    g.updatedAt = Date.now()
+  /* ---- lobby: ready checks, private room start ---- */
+
+  // the host's START counts as their READY
+  private allReady(l: RoomLobby, except?: string) {
+    return l.seats.every((id) => id === except || l.ready.includes(id))
+  }
 
-    // if defender declared TAKE and all attackers passed -> end round take
-    const attackers = listAttackers(g.order, g.active, g.defenderId)
-    const allPassed = attackers.every((id) => g.passed.includes(id))
-    if (g.takeDeclared && allPassed) {
-      this.endRoundTake(g)
+  private async deal() {
+    const room = this.room!
+    const l = room.lobby!
+    room.config = { ...room.config, maxPlayers: l.seats.length as MaxPlayers }
+    room.game = await this.initGame(room.roomId, room.config, l.seats)
+    room.lobby = null
+    // the reconnect grace starts with the game, not with a drop in the lobby
+    const now = Date.now()
+    for (const id of l.seats) {
+      if (room.presence[id]?.status !== "disconnected") continue
+      room.presence[id] = { status: "disconnected", since: now }
+      this.broadcastPresence(id)
     }
+    await this.armTurnTimer()
+  }
 
+  private async onReady(tgId: string) {
+    const room = this.room
+    if (!room || room.game || !room.lobby) return this.sendErrTo(tgId, "GAME_ALREADY_STARTED")
+    const l = room.lobby
+    if (!l.seats.includes(tgId)) return this.sendErrTo(tgId, "NOT_SEATED")
+    if (!l.ready.includes(tgId)) l.ready.push(tgId)
+
+    if (l.kind === "matched" && this.allReady(l)) await this.deal()
     await this.persist()
     this.broadcastStates()
   }
 
-  private async onBeat(tgId: string) {
-    if (!this.room) return
-    const g = this.room.game
-    if (g.phase !== "playing") return this.sendErrTo(tgId, "GAME_NOT_PLAYING")
-    if (tgId !== g.defenderId) return this.sendErrTo(tgId, "ONLY_DEFENDER_CAN_BEAT")
-    if (!isFullyDefended(g.table)) return this.sendErrTo(tgId, "NOT_FULLY_DEFENDED")
-    const attackers = listAttackers(g.order, g.active, g.defenderId)
-    if (!attackers.every((id) => g.passed.includes(id))) return this.sendErrTo(tgId, "ATTACKERS_NOT_PASSED")
+  private async onStart(tgId: string) {
+    const room = this.room
+    if (!room || room.game || !room.lobby) return this.sendErrTo(tgId, "GAME_ALREADY_STARTED")
+    const l = room.lobby
+    if (l.kind !== "private" || tgId !== l.hostId) return this.sendErrTo(tgId, "ONLY_HOST_CAN_START")
+    if (l.seats.length < minSeats(room.config)) return this.sendErrTo(tgId, "NOT_ENOUGH_PLAYERS")
+    if (!this.allReady(l, tgId)) return this.sendErrTo(tgId, "PLAYERS_NOT_READY")
 
-    this.endRoundBeat(g)
+    await this.deal()
     await this.persist()
     this.broadcastStates()
   }
 
-  private initGame(roomId: string, cfg: RoomConfig, players: string[]) {
-    const order = players.slice(0, cfg.maxPlayers)
-    const active: Record<string, boolean> = {}
-    const hands: Record<string, Card[]> = {}
+  // matched room, ready deadline passed: drop no-shows, send the rest back to the queue
+  private async onReadyTimeout() {
+    const room = this.room!
+    const l = room.lobby!
+    const removed = l.seats.filter((id) => !l.ready.includes(id))
+    const requeue = l.seats.filter((id) => l.ready.includes(id) && !isBotId(id))
+
+    let requeued = false
+    try {
+      const stub = this.env.MM.get(this.env.MM.idFromName("global"))
+      const res = await stub.fetch("https://mm/requeue", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ config: room.config, players: requeue, dropped: removed }),
+      })
+      requeued = res.ok
+    } catch {}
+    if (!requeued) {
+      // nobody is dropped until the matchmaker has taken the rest back
+      l.readyDeadline = Date.now() + REQUEUE_RETRY_MS
+      await this.scheduleAlarm()
+      await this.persist()
+      this.broadcastStates()
+      return
+    }
 
-    for (const id of order) {
-      active[id] = true
-      hands[id] = []
+    // the room is done; clients go back to matchmaking
+    this.broadcast({ type: "REQUEUED", removed })
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.close(4000, "Requeued")
+      } catch {}
     }
+    this.room = null
+    await this.state.storage.deleteAlarm()
+    await this.state.storage.deleteAll()
+  }
 
-    const deck = shuffle(createDeck(cfg.deckSize))
-    const trumpCard = deck[0]
-    const trumpSuit = parseCard(trumpCard)!.suit
+  private async onLeave(tgId: string) {
+    const l = this.room?.lobby
+    if (!this.room || this.room.game || !l) return this.sendErrTo(tgId, "GAME_ALREADY_STARTED")
+    if (!l.seats.includes(tgId)) return
 
-    for (let i = 0; i < 6; i++) {
-      for (const pid of order) {
-        const c = deck.pop()
-        if (c) hands[pid].push(c)
-      }
-    }
-    for (const pid of order) hands[pid].sort(sortBySuitThenRank)
-
-    let attackerId = order[0]
-    let best: Rank | null = null
-    let bestId: string | null = null
-    for (const pid of order) {
-      const r = lowestTrumpRank(hands[pid], trumpSuit)
-      if (r === null) continue
-      if (best === null || r < best) {
-        best = r
-        bestId = pid
-      }
-    }
-    if (bestId) attackerId = bestId
+    if (l.kind !== "private") return this.sendErrTo(tgId, "CANNOT_LEAVE_MATCHED_ROOM")
 
-    const defenderId = nextActiveId(order, active, attackerId)
+    l.seats = l.seats.filter((id) => id !== tgId)
+    l.ready = l.ready.filter((id) => id !== tgId)
+    delete this.room.presence[tgId]
+    // host leaves -> next seat takes over
+    if (l.hostId === tgId && l.seats.length > 0) l.hostId = l.seats[0]
+    await this.persist()
 
-    const game: GameState = {
-      roomId,
-      config: cfg,
-      phase: "playing",
-      order,
-      active,
-      deck,
-      trumpSuit,
-      trumpCard,
-      hands,
-      table: [],
-      discard: [],
-      attackerId,
-      defenderId,
-      roundLimit: hands[defenderId].length,
-      passed: [],
-      takeDeclared: false,
-      loser: null,
-      updatedAt: Date.now(),
+    for (const ws of this.state.getWebSockets()) {
+      if (this.getAttach(ws).tgId === tgId) this.setAttach(ws, {})
     }
-
-    this.room = { roomId, config: cfg, game }
+    this.broadcastStates()
   }
 
   async fetch(request: Request) {
@@ -1102,11 +2404,103 @@ export class RoomDO {
       if (!body.roomId || !body.config || !Array.isArray(body.players) || body.players.length < 2) {
         return bad(400, "bad init")
       }
-      this.initGame(body.roomId, body.config, body.players)
+      // nothing is dealt until every matched player shows up and sends READY (bots are ready from the start)
+      const now = Date.now()
+      const seats = body.players.slice(0, body.config.maxPlayers)
+      this.room = {
+        roomId: body.roomId,
+        config: body.config,
+        game: null,
+        lobby: {
+          kind: "matched",
+          hostId: null,
+          code: null,
+          seats,
+          ready: seats.filter(isBotId),
+          readyDeadline: now + READY_TIMEOUT_MS,
+          createdAt: now,
+        },
+        presence: {},
+      }
+      await this.scheduleAlarm()
+      await this.persist()
+      return ok({ roomId: body.roomId })
+    }
+
+    // private room: create lobby with the host in the first seat
+    if (url.pathname === "/create" && request.method === "POST") {
+      const body = (await request.json().catch(() => ({}))) as {
+        roomId?: string
+        code?: string
+        config?: RoomConfig
+        hostId?: string
+      }
+      if (!body.roomId || !body.code || !body.config || !body.hostId) return bad(400, "bad create")
+      if (this.room) return bad(409, "room exists")
+      this.room = {
+        roomId: body.roomId,
+        config: body.config,
+        game: null,
+        lobby: {
+          kind: "private",
+          hostId: body.hostId,
+          code: body.code,
+          seats: [body.hostId],
+          ready: [],
+          readyDeadline: null,
+          createdAt: Date.now(),
+        },
+        presence: {},
+      }
+      await this.persist()
+      return ok({ roomId: body.roomId, code: body.code })
+    }
+
+    // practice: one human against bots, dealt at once (no lobby, no ready check)
+    if (url.pathname === "/practice" && request.method === "POST") {
+      const body = (await request.json().catch(() => ({}))) as {
+        roomId?: string
+        config?: RoomConfig
+        tgId?: string
+        level?: BotLevel
+      }
+      if (!body.roomId || !body.config || !body.tgId || !body.level) return bad(400, "bad practice")
+      if (this.room) return bad(409, "room exists")
+      const bots = practiceBotIds(body.level, body.config.maxPlayers)
+      this.room = {
+        roomId: body.roomId,
+        config: body.config,
+        game: await this.initGame(body.roomId, body.config, [body.tgId, ...bots]),
+        lobby: null,
+        presence: {},
+        practice: true,
+      }
+      await this.armTurnTimer()
       await this.persist()
       return ok({ roomId: body.roomId })
     }
 
+    // private room: take a seat by invite code
+    if (url.pathname === "/join" && request.method === "POST") {
+      const body = (await request.json().catch(() => ({}))) as { tgId?: string }
+      const tgId = String(body.tgId ?? "")
+      if (!tgId) return bad(400, "bad join")
+      const room = this.room
+      if (!room || (!room.lobby && !room.game)) return bad(404, "room not found")
+
+      const seated = this.seats().includes(tgId)
+      if (!seated) {
+        if (room.game || !room.lobby) return bad(409, "game already started", { code: "GAME_ALREADY_STARTED" })
+        if (room.lobby.kind !== "private") return bad(404, "room not found")
+        if (room.lobby.seats.length >= room.config.maxPlayers) return bad(409, "room is full", { code: "ROOM_FULL" })
+        room.lobby.seats.push(tgId)
+        await this.persist()
+        this.broadcastStates()
+      }
+      // private rooms are named by their invite code
+      return ok({ roomId: room.roomId, code: room.lobby?.code ?? room.roomId, wsUrl: `/ws/${room.roomId}` })
+    }
+
     // websocket
     // websocket
 if (request.headers.get("Upgrade") !== "websocket") return bad(426, "Expected websocket")
@@ -1143,29 +2537,43 @@ return new Response(null, { status: 101, webSocket: client })
         } catch {}
         return
       }
-      const token = String((msg as any).sessionToken ?? "")
-      const session = await verifySession(token, this.env.APP_SECRET)
-      if (!session) {
-        this.send(ws, { type: "ERROR", code: "BAD_SESSION" })
+      const auth = await checkSession(this.env, String((msg as any).sessionToken ?? ""))
+      if (!auth.ok) {
+        this.send(ws, { type: "ERROR", code: auth.code })
         try {
-          ws.close(1008, "Bad session")
+          ws.close(1008, auth.code === "SESSION_EXPIRED" ? "Expired" : "Bad session")
         } catch {}
         return
       }
-      if (session.exp < Date.now()) {
-        this.send(ws, { type: "ERROR", code: "SESSION_EXPIRED" })
+
+      const tgId = String(auth.session.tg_id)
+
+      // not seated -> spectator, as long as there is room to watch
+      const viewers = this.viewerIds(ws)
+      if (!this.seats().includes(tgId) && !viewers.has(tgId) && viewers.size >= SPECTATOR_LIMIT) {
+        this.send(ws, { type: "ERROR", code: "SPECTATORS_FULL" })
         try {
-          ws.close(1008, "Expired")
+          ws.close(1008, "Spectators full")
         } catch {}
         return
       }
-
-      const tgId = String(session.tg_id)
-      this.setAttach(ws, { tgId })
+      this.setAttach(ws, { tgId, jti: auth.session.jti })
+
+      // seat resume: back inside the grace window
+      const prev = this.room.presence[tgId]
+      if (this.seats().includes(tgId) && prev?.status !== "connected" && prev?.status !== "forfeited") {
+        this.room.presence[tgId] = { status: "connected", since: Date.now() }
+        await this.persist()
+        this.broadcastPresence(tgId)
+      }
+      // grace expiries change, and the revocation sweep now covers this socket
+      await this.scheduleAlarm()
+      if (prev?.status === "forfeited") this.send(ws, { type: "ERROR", code: "SEAT_FORFEITED" })
+      if (this.seats().includes(tgId)) await this.rememberName(tgId)
 
       // send state immediately (only to this ws)
-      this.send(ws, { type: "STATE", state: this.buildStateFor(tgId) })
-      // and broadcast to all (so both update)
+      this.send(ws, { type: "STATE", state: this.stateFor(tgId) })
+      // and broadcast to all (so both update, and the viewer count moves)
       this.broadcastStates()
       return
     }
@@ -1175,27 +2583,90 @@ return new Response(null, { status: 101, webSocket: client })
     if (!tgId) {
       return this.send(ws, { type: "ERROR", code: "NOT_JOINED" })
     }
+    // the sender itself may be among the revoked sockets
+    await this.closeRevokedSockets()
+    if (!this.getAttach(ws).tgId) return
 
     if (!this.room) return this.send(ws, { type: "ERROR", code: "ROOM_NOT_READY" })
+    if (!this.seats().includes(tgId)) return this.send(ws, { type: "ERROR", code: "SPECTATOR_READ_ONLY" })
+
+    // lobby
+    if (msg.type === "READY") return this.onReady(tgId)
+    if (msg.type === "START") return this.onStart(tgId)
+    if (msg.type === "LEAVE") return this.onLeave(tgId)
 
     // gameplay
-    if (msg.type === "ATTACK") return this.onAttack(tgId, String((msg as any).card ?? ""))
+    const m = msg as any
+    if (msg.type === "ATTACK") return this.onAction(tgId, { type: "ATTACK", card: String(m.card ?? "") })
     if (msg.type === "DEFEND")
-      return this.onDefend(tgId, Number((msg as any).attackIndex), String((msg as any).card ?? ""))
-    if (msg.type === "TRANSFER") return this.onTransfer(tgId, String((msg as any).card ?? ""))
-    if (msg.type === "TAKE") return this.onTake(tgId)
-    if (msg.type === "PASS") return this.onPass(tgId)
-    if (msg.type === "BEAT") return this.onBeat(tgId)
+      return this.onAction(tgId, { type: "DEFEND", attackIndex: Number(m.attackIndex), card: String(m.card ?? "") })
+    if (msg.type === "TRANSFER") return this.onAction(tgId, { type: "TRANSFER", card: String(m.card ?? "") })
+    if (msg.type === "TRANSFER_SHOW") return this.onAction(tgId, { type: "TRANSFER_SHOW", card: String(m.card ?? "") })
+    if (msg.type === "TAKE" || msg.type === "PASS" || msg.type === "BEAT") return this.onAction(tgId, { type: msg.type })
 
     this.send(ws, { type: "ERROR", code: "UNKNOWN_MSG" })
   }
 
   async webSocketClose(ws: WebSocket) {
-    // nothing critical; state.getWebSockets() will keep correct list
+    await this.loadOnce()
+    const tgId = this.getAttach(ws).tgId
+    if (!tgId) return
+    if (this.seats().includes(tgId)) return this.markDisconnected(ws, tgId)
+
+    // a spectator left: the closing socket is still listed, so forget it before recounting viewers
+    this.setAttach(ws, {})
+    this.broadcastStates()
   }
 
   async webSocketError(ws: WebSocket, err: unknown) {
-    // ignore
+    await this.webSocketClose(ws)
+  }
+
+  // Turn timer + bot moves + seat grace + ready deadline (Durable Object alarm)
+  async alarm() {
+    await this.loadOnce()
+    const g = this.room?.game
+    const now = Date.now()
+    if (!this.room) return
+    if (this.sweepsRevocations()) await this.closeRevokedSockets()
+
+    if (!g) {
+      const l = this.room.lobby
+      if (l?.readyDeadline && l.readyDeadline <= now) await this.onReadyTimeout()
+      else await this.scheduleAlarm()
+      return
+    }
+    if (g.phase !== "playing") return this.recordResultIfFinished()
+
+    // players already out of the game have nothing left to forfeit
+    const forfeited: string[] = []
+    for (const [id, p] of Object.entries(this.room.presence)) {
+      if (p.status === "disconnected" && g.active[id] && p.since + RECONNECT_GRACE_MS <= now) {
+        this.forfeitSeat(id, now)
+        forfeited.push(id)
+      }
+    }
+
+    // alarm may fire slightly early or be stale after a re-arm
+    const cur = this.room.game!
+    const turnExpired = cur.phase === "playing" && !!cur.turnDeadline && cur.turnDeadline <= now
+    if (turnExpired) this.room.game = applyTimeout(cur, now).state
+
+    if (forfeited.length === 0 && !turnExpired) {
+      // bots go through the same path as a player's message
+      const bot = this.nextBotMove()
+      if (bot && this.room.game!.updatedAt + BOT_DELAY_MS <= now) return this.onAction(bot.id, bot.action)
+      await this.scheduleAlarm()
+      return
+    }
+
+    // a fresh turn clock only when the turn moved (timeout) or the game ended
+    if (turnExpired || this.room.game!.phase !== "playing") await this.armTurnTimer()
+    else await this.scheduleAlarm()
+    await this.persist()
+    for (const id of forfeited) this.broadcastPresence(id)
+    this.broadcastStates()
+    await this.recordResultIfFinished()
   }
 }
 
@@ -1217,6 +2688,7 @@ const MINI_HTML = `<!doctype html>
     button:disabled{opacity:.5;cursor:not-allowed}
     .cardbtn{padding:8px 10px;border-radius:10px;border:1px solid #ddd;background:#fff}
     .sel{border-color:#000}
+    .cardbtn.ok{background:#eaffea}
     pre{background:#f6f6f6;padding:12px;border-radius:12px;overflow:auto;white-space:pre-wrap}
     .box{border:1px solid #eee;border-radius:12px;padding:10px;margin:10px 0}
     .small{color:#666;font-size:12px}
@@ -1230,7 +2702,9 @@ const MINI_HTML = `<!doctype html>
   <div class="box">
     <div class="row">
       <button id="btnAuth">1) Auth</button>
+      <button id="btnGuest">or play as guest</button>
       <button id="btnMM" disabled>2) Matchmaking</button>
+      <button id="btnCancelMM" disabled>Cancel</button>
       <button id="btnConnect" disabled>3) Connect WS</button>
     </div>
 
@@ -1245,6 +2719,7 @@ const MINI_HTML = `<!doctype html>
         <select id="deck">
           <option value="36">36</option>
           <option value="24">24</option>
+          <option value="52">52</option>
         </select>
       </label>
       <label>Players:
@@ -1252,13 +2727,50 @@ const MINI_HTML = `<!doctype html>
           <option value="2">2</option>
           <option value="3">3</option>
           <option value="4">4</option>
+          <option value="5">5</option>
+          <option value="6">6</option>
+        </select>
+      </label>
+      <label><input type="checkbox" id="teams"/> 2v2 teams (4 players)</label>
+    </div>
+
+    <div class="row">
+      <label><input type="checkbox" id="ruleFirst5"/> first round max 5</label>
+      <label>Throw-in:
+        <select id="ruleThrowIn">
+          <option value="all">everyone</option>
+          <option value="neighbors">neighbours only</option>
         </select>
       </label>
+      <label>Round limit:
+        <select id="ruleRoundLimit">
+          <option value="hand">defender's hand</option>
+          <option value="six">max 6</option>
+        </select>
+      </label>
+      <label><input type="checkbox" id="ruleTransferShow"/> transfer by showing a trump</label>
     </div>
 
     <div class="row">
       <input id="roomInput" placeholder="roomId" style="min-width:320px"/>
     </div>
+
+    <div class="row">
+      <button id="btnCreateRoom" disabled>Create private room</button>
+      <input id="codeInput" placeholder="invite code" style="width:120px"/>
+      <button id="btnJoinCode" disabled>Join by code</button>
+      <button id="btnReady" disabled>READY</button>
+      <button id="btnStart" disabled>START (host)</button>
+    </div>
+
+    <div class="row">
+      <select id="botLevelSel">
+        <option value="easy">easy bots</option>
+        <option value="normal">normal bots</option>
+        <option value="hard">hard bots</option>
+      </select>
+      <button id="btnPractice" disabled>Practice vs bots</button>
+    </div>
   </div>
 
   <div class="box">
@@ -1267,6 +2779,7 @@ const MINI_HTML = `<!doctype html>
       <button id="btnTake" disabled>TAKE</button>
       <button id="btnBeat" disabled>BEAT</button>
       <button id="btnTransfer" disabled>TRANSFER (select card)</button>
+      <button id="btnShowTrump" disabled>SHOW TRUMP (select card)</button>
     </div>
     <div class="small">DEFEND: click A# on table, then click card in hand. ATTACK: just click card in hand.</div>
   </div>
@@ -1280,6 +2793,9 @@ const MINI_HTML = `<!doctype html>
       <div><b>Att</b> <span id="att">-</span></div>
       <div><b>Def</b> <span id="def">-</span></div>
       <div><b>Status</b> <span id="status">-</span></div>
+      <div><b>Timer</b> <span id="timer">-</span></div>
+      <div><b>Viewers</b> <span id="viewers">-</span></div>
+      <div><b>Deal</b> <span id="fair" class="small">-</span></div>
     </div>
   </div>
 
@@ -1310,30 +2826,51 @@ const MINI_HTML = `<!doctype html>
   const defEl = document.getElementById("def");
   const statusEl = document.getElementById("status");
   const othersEl = document.getElementById("others");
+  const timerEl = document.getElementById("timer");
+  const viewersEl = document.getElementById("viewers");
+  const fairEl = document.getElementById("fair");
 
   const tableEl = document.getElementById("table");
   const handEl = document.getElementById("hand");
 
   const btnAuth = document.getElementById("btnAuth");
+  const btnGuest = document.getElementById("btnGuest");
   const btnMM = document.getElementById("btnMM");
+  const btnCancelMM = document.getElementById("btnCancelMM");
+  const btnCreateRoom = document.getElementById("btnCreateRoom");
+  const btnJoinCode = document.getElementById("btnJoinCode");
+  const btnReady = document.getElementById("btnReady");
+  const btnStart = document.getElementById("btnStart");
+  const btnPractice = document.getElementById("btnPractice");
+  const botLevelSel = document.getElementById("botLevelSel");
+  const codeInput = document.getElementById("codeInput");
   const btnConnect = document.getElementById("btnConnect");
   const btnPass = document.getElementById("btnPass");
   const btnTake = document.getElementById("btnTake");
   const btnBeat = document.getElementById("btnBeat");
   const btnTransfer = document.getElementById("btnTransfer");
+  const btnShowTrump = document.getElementById("btnShowTrump");
 
   const modeSel = document.getElementById("mode");
   const deckSel = document.getElementById("deck");
   const maxPlayersSel = document.getElementById("maxPlayers");
+  const teamsChk = document.getElementById("teams");
+  const ruleFirst5 = document.getElementById("ruleFirst5");
+  const ruleThrowIn = document.getElementById("ruleThrowIn");
+  const ruleRoundLimit = document.getElementById("ruleRoundLimit");
+  const ruleTransferShow = document.getElementById("ruleTransferShow");
   const roomInput = document.getElementById("roomInput");
 
   let sessionToken = "";
+  let refreshToken = "";
   let roomId = "";
   let ws = null;
   let lastState = null;
 
   let selectedCard = "";
   let selectedAttackIndex = null;
+  let clockOffset = 0;
+  let mmPoll = null;
 
   function log(...args){
     const line = args.map(a => {
@@ -1352,30 +2889,63 @@ const MINI_HTML = `<!doctype html>
     ws.send(JSON.stringify(obj));
   }
 
+  function renderTimer(){
+    const deadline = lastState && (lastState.phase === "lobby" ? lastState.readyDeadline : lastState.turnDeadline);
+    if (!deadline || (lastState.phase !== "playing" && lastState.phase !== "lobby")) { timerEl.textContent = "-"; return; }
+    const left = Math.max(0, Math.ceil((deadline - (Date.now() + clockOffset)) / 1000));
+    timerEl.textContent = left + "s";
+  }
+  setInterval(renderTimer, 500);
+
   function renderState(st){
     lastState = st;
+    if (st.serverNow) clockOffset = st.serverNow - Date.now();
+    renderTimer();
     roomEl.textContent = st.roomId || "-";
-    youEl.textContent = st.you || "-";
-    phaseEl.textContent = st.phase || "-";
+    youEl.textContent = (st.you || "-") + (st.teams && st.you in st.teams ? " (team " + st.teams[st.you] + ")" : "");
+    phaseEl.textContent = (st.phase || "-") + (st.spectator ? " (spectating)" : "") + (st.loserTeam != null ? ", team " + st.loserTeam + " lost" : "");
+    viewersEl.textContent = String(st.viewers ?? "-");
+    const fair = st.fairness || {};
+    fairEl.innerHTML = !fair.commitment ? "-"
+      : st.practice ? "practice (not saved)"
+      : fair.seed ? 'seed ' + fair.seed.slice(0, 12) + '... <a href="/api/games/' + encodeURIComponent(st.roomId) + '/verify" target="_blank">verify</a>'
+      : "commit " + fair.commitment.slice(0, 12) + "...";
     trumpEl.textContent = st.trumpSuit ? (st.trumpSuit + " (" + st.trumpCard + ")") : "-";
     attEl.textContent = st.attacker || "-";
     defEl.textContent = st.defender || "-";
 
     othersEl.textContent = JSON.stringify(st.others || [], null, 2);
 
+    btnStart.disabled = !(st.phase === "lobby" && st.canStart);
+    btnReady.disabled = !(st.phase === "lobby" && !st.spectator && !(st.ready || []).includes(st.you));
+    if (st.phase === "lobby") {
+      const ready = (st.ready || []).length + "/" + (st.players || []).length + " ready";
+      if (st.kind === "matched") setStatus("matched lobby, " + ready);
+      else setStatus("lobby, code=" + st.code + " seats=" + (st.players || []).length + "/" + st.config.maxPlayers + ", " + ready);
+      tableEl.innerHTML = "";
+      handEl.innerHTML = "";
+      return;
+    }
+
     const a = (st.allowed || {});
     btnPass.disabled = !a.pass;
     btnTake.disabled = !a.take;
     btnBeat.disabled = !a.beat;
     btnTransfer.disabled = !a.transfer;
+    btnShowTrump.disabled = !a.transferShow;
 
-    setStatus("deck=" + st.deckCount + " table=" + (st.table?st.table.length:0) + " take=" + !!st.takeDeclared);
+    setStatus("deck=" + st.deckCount + " table=" + (st.table?st.table.length:0) + " take=" + !!st.takeDeclared + (st.trumpShown ? " shown=" + st.trumpShown : ""));
+
+    // exact legal moves from the server: playable cards are green, the rest disabled
+    const mv = st.moves || { attack: [], defend: [], transfer: [], transferShow: [] };
+    const defendable = (c) => mv.defend.filter((d) => d.cards.includes(c)).map((d) => d.attackIndex);
 
     tableEl.innerHTML = "";
     selectedAttackIndex = (selectedAttackIndex !== null && st.table && st.table[selectedAttackIndex]) ? selectedAttackIndex : null;
     (st.table || []).forEach((p, idx) => {
       const btn = document.createElement("button");
-      btn.className = "cardbtn" + (selectedAttackIndex === idx ? " sel" : "");
+      const beatable = mv.defend.some((d) => d.attackIndex === idx && d.cards.length > 0);
+      btn.className = "cardbtn" + (selectedAttackIndex === idx ? " sel" : "") + (beatable ? " ok" : "");
       btn.textContent = "A" + idx + ": " + p.a + " -> " + (p.d || "??");
       btn.onclick = () => { selectedAttackIndex = idx; renderState(lastState); };
       tableEl.appendChild(btn);
@@ -1384,16 +2954,25 @@ const MINI_HTML = `<!doctype html>
     handEl.innerHTML = "";
     (st.yourHand || []).forEach((c) => {
       const btn = document.createElement("button");
-      btn.className = "cardbtn" + (selectedCard === c ? " sel" : "");
+      const idxs = defendable(c);
+      const playable = mv.attack.includes(c) || mv.transfer.includes(c) || mv.transferShow.includes(c) || idxs.length > 0;
+      btn.className = "cardbtn" + (selectedCard === c ? " sel" : "") + (playable ? " ok" : "");
       btn.textContent = c;
+      btn.disabled = !playable;
       btn.onclick = () => {
         selectedCard = c;
 
-        // If defender and user selected attackIndex and defend allowed -> DEFEND
-        if (st.you === st.defender && selectedAttackIndex !== null && st.allowed && st.allowed.defend){
-          wsSend({ type:"DEFEND", attackIndex:selectedAttackIndex, card:c });
-        } else {
+        // defend the selected attack card if this card beats it, else transfer, else the first card it beats
+        if (mv.attack.includes(c)) {
           wsSend({ type:"ATTACK", card:c });
+        } else if (idxs.includes(selectedAttackIndex)) {
+          wsSend({ type:"DEFEND", attackIndex:selectedAttackIndex, card:c });
+        } else if (mv.transfer.includes(c)) {
+          wsSend({ type:"TRANSFER", card:c });
+        } else if (idxs.length > 0) {
+          wsSend({ type:"DEFEND", attackIndex:idxs[0], card:c });
+        } else if (mv.transferShow.includes(c)) {
+          wsSend({ type:"TRANSFER_SHOW", card:c });
         }
         renderState(lastState);
       };
@@ -1411,50 +2990,197 @@ const MINI_HTML = `<!doctype html>
         headers:{ "content-type":"application/json" },
         body: JSON.stringify({ initData })
       });
-      const data = await r.json();
-      setLog(JSON.stringify(data, null, 2));
-      if (data.ok && data.sessionToken) {
-        sessionToken = data.sessionToken;
-        btnMM.disabled = false;
-        log("Auth OK.");
-      }
+      onAuthed(await r.json());
+    }catch(e){
+      setLog("Auth error: " + (e?.message || String(e)));
+    }
+  };
+
+  // outside Telegram: an anonymous account, linkable to Telegram later
+  btnGuest.onclick = async () => {
+    try{
+      setLog("Guest auth...");
+      const r = await fetch("/api/auth/guest", { method:"POST" });
+      onAuthed(await r.json());
     }catch(e){
       setLog("Auth error: " + (e?.message || String(e)));
     }
   };
 
+  function onAuthed(data){
+    setLog(JSON.stringify(data, null, 2));
+    if (!data.ok || !data.sessionToken) return;
+    sessionToken = data.sessionToken;
+    refreshToken = data.refreshToken || "";
+    btnMM.disabled = false;
+    btnCreateRoom.disabled = false;
+    btnJoinCode.disabled = false;
+    btnPractice.disabled = false;
+    log("Auth OK.");
+  }
+
+  // access tokens are short-lived; swap the refresh token for a new pair
+  async function refreshSession(){
+    const r = await fetch("/api/auth/refresh", {
+      method:"POST",
+      headers:{ "content-type":"application/json" },
+      body: JSON.stringify({ refreshToken })
+    });
+    const data = await r.json();
+    if (!data.ok) { log("Refresh failed:", data.code || data.error); return false; }
+    sessionToken = data.sessionToken;
+    refreshToken = data.refreshToken;
+    return true;
+  }
+
+  // authenticated call: an expired access token is refreshed once and the call repeated
+  async function authFetch(url, init){
+    const send = () => fetch(url, Object.assign({}, init, {
+      headers: Object.assign({}, init && init.headers, { "authorization":"Bearer " + sessionToken })
+    }));
+    let r = await send();
+    if (r.status === 401 && refreshToken) {
+      const data = await r.clone().json().catch(() => ({}));
+      if (data.code === "SESSION_EXPIRED" && await refreshSession()) r = await send();
+    }
+    return r;
+  }
+
+  function roomConfig(){
+    return {
+      mode: modeSel.value,
+      deckSize: Number(deckSel.value),
+      maxPlayers: Number(maxPlayersSel.value),
+      teams: teamsChk.checked,
+      rules: {
+        firstRoundLimit5: ruleFirst5.checked,
+        throwIn: ruleThrowIn.value,
+        roundLimit: ruleRoundLimit.value,
+        transferShow: ruleTransferShow.checked
+      }
+    };
+  }
+
   btnMM.onclick = async () => {
     try{
       if (!sessionToken) { log("Auth first"); return; }
       setStatus("Matchmaking...");
-      const payload = {
-        mode: modeSel.value,
-        deckSize: Number(deckSel.value),
-        maxPlayers: Number(maxPlayersSel.value)
-      };
-      const r = await fetch("/api/matchmaking", {
+      const payload = roomConfig();
+      const r = await authFetch("/api/matchmaking", {
         method:"POST",
-        headers:{
-          "content-type":"application/json",
-          "authorization":"Bearer " + sessionToken
-        },
+        headers:{ "content-type":"application/json" },
         body: JSON.stringify(payload)
       });
       const data = await r.json();
       log(data);
-      if (data.ok && data.status === "matched") {
-        roomId = data.roomId;
-        roomInput.value = roomId;
-        btnConnect.disabled = false;
-        setStatus("Matched!");
-      } else {
-        setStatus("Queued (open another client and press Matchmaking too)");
-      }
+      onMMStatus(data);
     }catch(e){
       log("MM error:", e?.message || String(e));
     }
   };
 
+  function stopMMPoll(){
+    if (mmPoll) { clearInterval(mmPoll); mmPoll = null; }
+    btnCancelMM.disabled = true;
+  }
+
+  function onMMStatus(data){
+    if (data.ok && data.status === "matched") {
+      stopMMPoll();
+      roomId = data.roomId;
+      roomInput.value = roomId;
+      btnConnect.disabled = false;
+      setStatus("Matched!");
+    } else if (data.ok && data.status === "queued") {
+      btnCancelMM.disabled = false;
+      setStatus("Queued" + (data.position ? " #" + data.position + "/" + data.queueSize : "") + " (open another client and press Matchmaking too)");
+      // polling doubles as the queue heartbeat
+      if (!mmPoll) mmPoll = setInterval(pollMM, 5000);
+    } else {
+      stopMMPoll();
+      setStatus(data.ok ? String(data.status) : "MM error");
+    }
+  }
+
+  async function pollMM(){
+    try{
+      const r = await authFetch("/api/matchmaking");
+      onMMStatus(await r.json());
+    }catch(e){
+      log("MM poll error:", e?.message || String(e));
+    }
+  }
+
+  function onRoomReady(data){
+    if (!data.ok) { setStatus("ERROR: " + (data.code || data.error)); return; }
+    roomId = data.roomId;
+    roomInput.value = roomId;
+    if (data.code) codeInput.value = data.code;
+    btnConnect.disabled = false;
+    setStatus("Room " + data.code + " ready, connect WS");
+  }
+
+  btnCreateRoom.onclick = async () => {
+    try{
+      const r = await authFetch("/api/rooms", {
+        method:"POST",
+        headers:{ "content-type":"application/json" },
+        body: JSON.stringify(roomConfig())
+      });
+      const data = await r.json();
+      log(data);
+      onRoomReady(data);
+    }catch(e){
+      log("Create room error:", e?.message || String(e));
+    }
+  };
+
+  btnJoinCode.onclick = async () => {
+    try{
+      const code = codeInput.value.trim().toUpperCase();
+      if (!code) { log("No code"); return; }
+      const r = await authFetch("/api/rooms/" + code + "/join", { method:"POST" });
+      const data = await r.json();
+      log(data);
+      onRoomReady(data);
+    }catch(e){
+      log("Join room error:", e?.message || String(e));
+    }
+  };
+
+  btnPractice.onclick = async () => {
+    try{
+      const r = await authFetch("/api/practice", {
+        method:"POST",
+        headers:{ "content-type":"application/json" },
+        body: JSON.stringify(Object.assign(roomConfig(), { level: botLevelSel.value }))
+      });
+      const data = await r.json();
+      log(data);
+      if (!data.ok) { setStatus("ERROR: " + (data.code || data.error)); return; }
+      roomId = data.roomId;
+      roomInput.value = roomId;
+      btnConnect.disabled = false;
+      setStatus("Practice room ready, connect WS");
+    }catch(e){
+      log("Practice error:", e?.message || String(e));
+    }
+  };
+
+  btnReady.onclick = () => wsSend({ type:"READY" });
+  btnStart.onclick = () => wsSend({ type:"START" });
+
+  btnCancelMM.onclick = async () => {
+    try{
+      const r = await authFetch("/api/matchmaking", { method:"DELETE" });
+      const data = await r.json();
+      log(data);
+      onMMStatus(data);
+    }catch(e){
+      log("MM cancel error:", e?.message || String(e));
+    }
+  };
+
   btnConnect.onclick = async () => {
     try{
       if (!sessionToken) { log("Auth first"); return; }
@@ -1479,7 +3205,16 @@ const MINI_HTML = `<!doctype html>
           log("WS <-", obj);
           if (obj.type === "STATE") renderState(obj.state);
           if (obj.type === "INFO") setStatus(obj.message || "INFO");
-          if (obj.type === "ERROR") setStatus("ERROR: " + obj.code);
+          if (obj.type === "ERROR" && obj.code === "SESSION_EXPIRED" && refreshToken) {
+            // the server closes this socket: reconnect with the new token
+            refreshSession().then((ok) => { if (ok) btnConnect.onclick(); });
+          } else if (obj.type === "ERROR") setStatus("ERROR: " + obj.code);
+          if (obj.type === "PRESENCE") setStatus("player " + (obj.name || obj.tgId) + ": " + obj.status);
+          if (obj.type === "REQUEUED") {
+            btnConnect.disabled = true;
+            if ((obj.removed || []).includes(lastState?.you)) setStatus("Not ready in time, search again");
+            else onMMStatus({ ok: true, status: "queued" });
+          }
         }catch{
           log("WS <- raw", String(ev.data));
         }
@@ -1500,6 +3235,11 @@ const MINI_HTML = `<!doctype html>
     if (!selectedCard) { log("Select a card first"); return; }
     wsSend({ type:"TRANSFER", card:selectedCard });
   };
+  btnShowTrump.onclick = () => {
+    if (!lastState?.allowed?.transferShow) { log("SHOW TRUMP not allowed"); return; }
+    if (!selectedCard) { log("Select a trump first"); return; }
+    wsSend({ type:"TRANSFER_SHOW", card:selectedCard });
+  };
 </script>
 </body>
 </html>`;
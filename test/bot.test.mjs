@@ -0,0 +1,202 @@
+// bot player tests: whole bot-only games must run to the end on legal moves only
+import { test, describe } from "node:test"
+import assert from "node:assert/strict"
+import { applyAction, createDeck, dealGame } from "../.out/engine.js"
+import { botLevelOf, botMove, isBotId, makeBotId, PRACTICE_MAX_PLAYERS, practiceBotIds } from "../.out/bot.js"
+
+const NOW = 1_700_000_000_000
+const OPTS = { seed: "s", commitment: "c", now: NOW }
+
+// small seeded PRNG so every run plays the same games
+function shuffled(deckSize, seed) {
+  let t = seed >>> 0
+  const rnd = () => {
+    t = (t + 0x6d2b79f5) >>> 0
+    let x = Math.imul(t ^ (t >>> 15), 1 | t)
+    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x)
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296
+  }
+  const deck = createDeck(deckSize)
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = Math.floor(rnd() * (i + 1))
+    ;[deck[i], deck[j]] = [deck[j], deck[i]]
+  }
+  return deck
+}
+
+// bots move one at a time in seating order, like RoomDO's alarm does
+function playOut(g) {
+  for (let moves = 0; moves < 2000; moves++) {
+    if (g.phase !== "playing") return { g, moves }
+    const id = g.order.find((p) => botMove(g, p))
+    assert.ok(id, `stuck: nobody can move\n${JSON.stringify({ table: g.table, hands: g.hands, passed: g.passed })}`)
+    const r = applyAction(g, id, botMove(g, id), NOW + moves)
+    assert.equal(r.ok, true, r.code)
+    g = r.state
+  }
+  assert.fail("game did not finish in 2000 moves")
+}
+
+// deck: cards under the trump card; leave it out for an empty deck
+function mk({ mode = "podkidnoy", rules, levels = ["normal", "normal"], hands, table = [], deck, trump = "S6" }) {
+  const players = levels.map((l, i) => makeBotId(l, String(i)))
+  const g = dealGame("r1", { mode, deckSize: 36, maxPlayers: players.length, rules }, players, createDeck(36), OPTS)
+  g.hands = Object.fromEntries(players.map((id, i) => [id, hands[i].slice()]))
+  g.trumpCard = trump
+  g.trumpSuit = trump[0]
+  g.deck = deck ? [trump, ...deck] : []
+  g.table = table
+  g.attackerId = players[0]
+  g.defenderId = players[1]
+  g.roundLimit = g.hands[players[1]].length
+  return { g, players }
+}
+
+describe("bot ids", () => {
+  test("namespace and level", () => {
+    const id = makeBotId("hard", "x1")
+    assert.equal(id, "bot:hard:x1")
+    assert.equal(isBotId(id), true)
+    assert.equal(botLevelOf(id), "hard")
+    assert.equal(isBotId("123456"), false)
+    assert.equal(botLevelOf("123456"), null)
+    assert.equal(botLevelOf("bot:weird:1"), "normal")
+  })
+
+  test("humans are never moved", () => {
+    const g = dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 2 }, ["1", "2"], createDeck(36), OPTS)
+    assert.equal(botMove(g, "1"), null)
+    assert.equal(botMove(g, "2"), null)
+  })
+
+  test("practice tables get 1-3 bots", () => {
+    assert.equal(PRACTICE_MAX_PLAYERS, 4)
+    for (const [maxPlayers, bots] of [[2, 1], [3, 2], [4, 3], [5, 3], [6, 3]]) {
+      const ids = practiceBotIds("easy", maxPlayers)
+      assert.equal(ids.length, bots)
+      assert.equal(new Set(ids).size, bots)
+      assert.ok(ids.every((id) => botLevelOf(id) === "easy"))
+    }
+  })
+})
+
+describe("full games", () => {
+  for (const mode of ["podkidnoy", "perevodnoy"]) {
+    for (const deckSize of [24, 36]) {
+      for (const levels of [["easy", "hard"], ["normal", "easy", "hard"], ["hard", "hard", "normal", "easy"]]) {
+        test(`${mode} ${deckSize} ${levels.join("/")}`, () => {
+          for (let seed = 1; seed <= 25; seed++) {
+            const players = levels.map((l, i) => makeBotId(l, String(i)))
+            const cfg = { mode, deckSize, maxPlayers: players.length }
+            const { g } = playOut(dealGame("r1", cfg, players, shuffled(deckSize, seed), OPTS))
+            assert.equal(g.phase, "finished")
+            assert.ok(g.loser === null || players.includes(g.loser))
+          }
+        })
+      }
+    }
+  }
+  for (const mode of ["podkidnoy", "perevodnoy"]) {
+    test(`${mode} 52 six players`, () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const players = ["hard", "easy", "normal", "hard", "normal", "easy"].map((l, i) => makeBotId(l, String(i)))
+        const cfg = { mode, deckSize: 52, maxPlayers: players.length }
+        const { g } = playOut(dealGame("r1", cfg, players, shuffled(52, seed), OPTS))
+        assert.equal(g.phase, "finished")
+        assert.ok(g.loser === null || players.includes(g.loser))
+      }
+    })
+  }
+  for (const mode of ["podkidnoy", "perevodnoy"]) {
+    test(`${mode} 36 teams`, () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const players = ["hard", "easy", "normal", "hard"].map((l, i) => makeBotId(l, String(i)))
+        const cfg = { mode, deckSize: 36, maxPlayers: 4, teams: true }
+        const { g } = playOut(dealGame("r1", cfg, players, shuffled(36, seed), OPTS))
+        assert.equal(g.phase, "finished")
+        if (g.loserTeam !== null) assert.ok(players.every((id) => g.teams[id] === g.loserTeam || g.active[id] === false))
+      }
+    })
+  }
+
+  // every house rule at once: neighbours-only throw-ins must not leave anyone stuck
+  const rules = { firstRoundLimit5: true, throwIn: "neighbors", roundLimit: "six", transferShow: true }
+  for (const mode of ["podkidnoy", "perevodnoy"]) {
+    test(`${mode} 36 with house rules`, () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const players = ["hard", "normal", "easy", "hard"].map((l, i) => makeBotId(l, String(i)))
+        const cfg = { mode, deckSize: 36, maxPlayers: players.length, rules }
+        const { g } = playOut(dealGame("r1", cfg, players, shuffled(36, seed), OPTS))
+        assert.equal(g.phase, "finished")
+      }
+    })
+  }
+})
+
+describe("decisions", () => {
+  test("leads with the cheapest plain card", () => {
+    const { g, players } = mk({ hands: [["S7", "HK", "D9"], ["C6"]] })
+    assert.deepEqual(botMove(g, players[0]), { type: "ATTACK", card: "D9" })
+    assert.equal(botMove(g, players[1]), null)
+  })
+
+  test("defends with the cheapest card that beats, otherwise takes", () => {
+    const table = [{ a: "H7", d: null }]
+    let { g, players } = mk({ hands: [["D9"], ["HA", "H9", "S6"]], table })
+    assert.deepEqual(botMove(g, players[1]), { type: "DEFEND", attackIndex: 0, card: "H9" })
+    ;({ g, players } = mk({ hands: [["D9"], ["D6", "C8"]], table }))
+    assert.deepEqual(botMove(g, players[1]), { type: "TAKE" })
+  })
+
+  test("easy throws in trumps, normal keeps them", () => {
+    const table = [{ a: "H7", d: "H9" }]
+    for (const [level, move] of [
+      ["easy", { type: "ATTACK", card: "S7" }],
+      ["normal", { type: "PASS" }],
+    ]) {
+      const { g, players } = mk({ levels: [level, "normal"], hands: [["S7", "DA"], ["C6", "C7"]], table, deck: ["D6"] })
+      assert.deepEqual(botMove(g, players[0]), move)
+    }
+  })
+
+  test("hard throws in only low plain cards while the deck lasts", () => {
+    const table = [{ a: "HQ", d: "HA" }]
+    let { g, players } = mk({ levels: ["hard", "normal"], hands: [["DQ"], ["C6", "C7"]], table, deck: ["D6"] })
+    assert.deepEqual(botMove(g, players[0]), { type: "PASS" })
+    ;({ g, players } = mk({ levels: ["hard", "normal"], hands: [["DQ"], ["C6", "C7"]], table }))
+    assert.deepEqual(botMove(g, players[0]), { type: "ATTACK", card: "DQ" })
+  })
+
+  test("hard takes rather than spend a high trump early", () => {
+    const table = [{ a: "H7", d: null }]
+    let { g, players } = mk({ levels: ["normal", "hard"], hands: [["D9"], ["SQ", "C6"]], table, deck: ["D6"] })
+    assert.deepEqual(botMove(g, players[1]), { type: "TAKE" })
+    ;({ g, players } = mk({ levels: ["normal", "normal"], hands: [["D9"], ["SQ", "C6"]], table, deck: ["D6"] }))
+    assert.deepEqual(botMove(g, players[1]), { type: "DEFEND", attackIndex: 0, card: "SQ" })
+  })
+
+  test("transfers with a plain card in perevodnoy, except on easy", () => {
+    const table = [{ a: "H7", d: null }]
+    const hands = [["D9", "DA"], ["C7", "S7", "H8"], ["C6", "C8", "C9"]]
+    let { g, players } = mk({ mode: "perevodnoy", levels: ["normal", "normal", "normal"], hands, table })
+    assert.deepEqual(botMove(g, players[1]), { type: "TRANSFER", card: "C7" })
+    ;({ g, players } = mk({ mode: "perevodnoy", levels: ["normal", "easy", "normal"], hands, table }))
+    assert.deepEqual(botMove(g, players[1]), { type: "DEFEND", attackIndex: 0, card: "H8" })
+  })
+
+  test("shows a trump to transfer when the table allows it", () => {
+    const table = [{ a: "H7", d: null }]
+    const hands = [["D9", "DA"], ["C7", "S7", "H8"], ["C6", "C8", "C9"]]
+    const rules = { transferShow: true }
+    const { g, players } = mk({ mode: "perevodnoy", rules, levels: ["normal", "hard", "normal"], hands, table })
+    assert.deepEqual(botMove(g, players[1]), { type: "TRANSFER_SHOW", card: "S7" })
+  })
+
+  test("beats once everyone has passed, waits after taking", () => {
+    let { g, players } = mk({ hands: [["D9"], ["C6"]], table: [{ a: "H7", d: "H9" }] })
+    g.passed = [players[0]]
+    assert.deepEqual(botMove(g, players[1]), { type: "BEAT" })
+    g.takeDeclared = true
+    assert.equal(botMove(g, players[1]), null)
+  })
+})
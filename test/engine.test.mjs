@@ -0,0 +1,862 @@
+// rules engine tests: `npm test` bundles src/engine.ts into .out/ and runs this file with node --test
+import { test, describe } from "node:test"
+import assert from "node:assert/strict"
+import {
+  allowedActions,
+  applyAction,
+  applyTimeout,
+  balancedTeams,
+  cardBeats,
+  createDeck,
+  dealGame,
+  DEFAULT_RULES,
+  forfeitPlayer,
+  isLoser,
+  legalMoves,
+  lowestCard,
+  parseCard,
+  rulesOf,
+  teamSeating,
+} from "../.out/engine.js"
+
+const NOW = 1_700_000_000_000
+const OPTS = { seed: "s", commitment: "c", now: NOW }
+
+// a real deal, then the fields a test cares about overwritten by hand
+function mk({ mode = "podkidnoy", rules, teams, players = ["a", "b"], trump = "S6", hands, deck = [], table = [], attacker, defender } = {}) {
+  const cfg = { mode, deckSize: 36, maxPlayers: players.length, rules, teams }
+  const full = createDeck(36)
+  const g = dealGame("r1", cfg, players, [trump, ...full.filter((c) => c !== trump)], OPTS)
+  if (hands) g.hands = structuredClone(hands)
+  g.deck = [trump, ...deck]
+  g.table = structuredClone(table)
+  g.attackerId = attacker ?? players[0]
+  g.defenderId = defender ?? players[1]
+  g.roundLimit = g.hands[g.defenderId].length
+  g.log = []
+  return g
+}
+
+function ok(g, playerId, action, now = NOW + 1) {
+  const r = applyAction(g, playerId, action, now)
+  assert.equal(r.ok, true, r.ok ? "" : `expected ok, got ${r.code}`)
+  return r.state
+}
+
+function code(g, playerId, action) {
+  const r = applyAction(g, playerId, action, NOW + 1)
+  assert.equal(r.ok, false, "expected an error")
+  return r.code
+}
+
+describe("cards", () => {
+  test("deck sizes", () => {
+    assert.equal(createDeck(36).length, 36)
+    assert.equal(createDeck(24).length, 24)
+    assert.equal(new Set(createDeck(36)).size, 36)
+    assert.ok(!createDeck(24).includes("H8"))
+    assert.equal(new Set(createDeck(52)).size, 52)
+    assert.ok(createDeck(52).includes("H2"))
+    assert.ok(!createDeck(36).includes("H5"))
+  })
+
+  test("parseCard: 2-10 and faces, nothing else", () => {
+    assert.deepEqual(parseCard("H2"), { suit: "H", rank: 2 })
+    assert.deepEqual(parseCard("S10"), { suit: "S", rank: 10 })
+    assert.deepEqual(parseCard("DA"), { suit: "D", rank: 14 })
+    assert.equal(parseCard("H1"), null)
+    assert.equal(parseCard("H02"), null)
+    assert.equal(parseCard("H11"), null)
+  })
+
+  test("cardBeats: same suit higher, trump over plain, nothing else", () => {
+    assert.equal(cardBeats("H9", "H7", "S"), true)
+    assert.equal(cardBeats("H7", "H9", "S"), false)
+    assert.equal(cardBeats("S6", "HA", "S"), true)
+    assert.equal(cardBeats("SA", "S7", "S"), true)
+    assert.equal(cardBeats("S6", "S7", "S"), false)
+    assert.equal(cardBeats("DA", "H6", "S"), false)
+    assert.equal(cardBeats("X1", "H6", "S"), false)
+  })
+
+  test("lowestCard prefers non-trumps", () => {
+    assert.equal(lowestCard(["S6", "HK", "D9"], "S"), "D9")
+    assert.equal(lowestCard(["SA", "S7"], "S"), "S7")
+    assert.equal(lowestCard([], "S"), null)
+  })
+})
+
+describe("dealGame", () => {
+  const deck = createDeck(36)
+  const g = dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 3 }, ["a", "b", "c", "d"], deck, OPTS)
+
+  test("seats up to maxPlayers, six cards each, the rest stays in the deck", () => {
+    assert.deepEqual(g.order, ["a", "b", "c"])
+    for (const id of g.order) assert.equal(g.hands[id].length, 6)
+    assert.equal(g.deck.length, 36 - 18)
+    assert.equal(g.phase, "playing")
+  })
+
+  test("deck[0] is the trump card", () => {
+    assert.equal(g.trumpCard, deck[0])
+    assert.equal(g.trumpSuit, deck[0][0])
+    assert.equal(g.deck[0], deck[0])
+  })
+
+  test("the lowest trump leads, the next seat defends", () => {
+    const lowest = (id) => Math.min(...g.hands[id].filter((c) => c[0] === g.trumpSuit).map((c) => createDeck(36).indexOf(c)))
+    const attacker = [...g.order].sort((x, y) => lowest(x) - lowest(y))[0]
+    assert.equal(g.attackerId, attacker)
+    assert.equal(g.defenderId, g.order[(g.order.indexOf(attacker) + 1) % 3])
+  })
+
+  test("six players on a 52-card deck still leave cards to draw", () => {
+    const six = dealGame("r1", { mode: "podkidnoy", deckSize: 52, maxPlayers: 6 }, ["a", "b", "c", "d", "e", "f"], createDeck(52), OPTS)
+    assert.equal(six.order.length, 6)
+    for (const id of six.order) assert.equal(six.hands[id].length, 6)
+    assert.equal(six.deck.length, 52 - 36)
+  })
+
+  test("does not touch the input deck", () => {
+    assert.deepEqual(deck, createDeck(36))
+  })
+
+  test("logs a single DEAL event with the commitment", () => {
+    assert.equal(g.log.length, 1)
+    assert.equal(g.log[0].type, "DEAL")
+    assert.equal(g.log[0].seq, 1)
+    assert.equal(g.log[0].commitment, "c")
+    assert.deepEqual(g.log[0].hands, g.hands)
+  })
+})
+
+describe("attack", () => {
+  const hands = { a: ["H7", "D7", "C9"], b: ["H9", "S8", "D6"], c: ["C7", "HJ"] }
+  const three = (over = {}) => mk({ players: ["a", "b", "c"], hands, ...over })
+
+  test("main attacker opens", () => {
+    const g = ok(three(), "a", { type: "ATTACK", card: "H7" })
+    assert.deepEqual(g.table, [{ a: "H7", d: null }])
+    assert.ok(!g.hands.a.includes("H7"))
+  })
+
+  test("NOT_ACTIVE", () => {
+    const g = three()
+    g.active.c = false
+    assert.equal(code(g, "c", { type: "ATTACK", card: "C7" }), "NOT_ACTIVE")
+    assert.equal(code(g, "z", { type: "ATTACK", card: "C7" }), "NOT_ACTIVE")
+  })
+
+  test("NOT_ACTIVE on PASS too, whatever the throw-in rule", () => {
+    for (const throwIn of ["all", "neighbors"]) {
+      const g = three({ rules: { throwIn }, table: [{ a: "H6", d: null }] })
+      g.active.c = false
+      assert.equal(code(g, "c", { type: "PASS" }), "NOT_ACTIVE")
+      assert.equal(code(g, "z", { type: "PASS" }), "NOT_ACTIVE")
+    }
+  })
+
+  test("DEFENDER_CANNOT_ATTACK", () => {
+    assert.equal(code(three(), "b", { type: "ATTACK", card: "H9" }), "DEFENDER_CANNOT_ATTACK")
+  })
+
+  test("YOU_PASSED", () => {
+    const g = three({ table: [{ a: "C8", d: null }] })
+    g.passed = ["c"]
+    assert.equal(code(g, "c", { type: "ATTACK", card: "C7" }), "YOU_PASSED")
+  })
+
+  test("CARD_NOT_IN_HAND", () => {
+    assert.equal(code(three(), "a", { type: "ATTACK", card: "HA" }), "CARD_NOT_IN_HAND")
+  })
+
+  test("ONLY_MAIN_ATTACKER_STARTS", () => {
+    assert.equal(code(three(), "c", { type: "ATTACK", card: "C7" }), "ONLY_MAIN_ATTACKER_STARTS")
+  })
+
+  test("throw-ins must match a rank on the table, from any attacker", () => {
+    let g = ok(three(), "a", { type: "ATTACK", card: "H7" })
+    assert.equal(code(g, "a", { type: "ATTACK", card: "C9" }), "RANK_NOT_ON_TABLE")
+    g = ok(g, "c", { type: "ATTACK", card: "C7" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    // defended ranks count too
+    g = ok(g, "a", { type: "ATTACK", card: "C9" })
+    assert.equal(g.table.length, 3)
+  })
+
+  test("ROUND_LIMIT caps the table at the defender's hand size", () => {
+    const g = mk({ hands: { a: ["H7", "D7", "C7"], b: ["S6"] }, table: [{ a: "S7", d: null }] })
+    g.roundLimit = 1
+    assert.equal(code(g, "a", { type: "ATTACK", card: "H7" }), "ROUND_LIMIT")
+  })
+
+  test("attacks are still allowed after TAKE is declared", () => {
+    const g = three({ table: [{ a: "C8", d: null }] })
+    g.hands.a.push("D8")
+    g.takeDeclared = true
+    assert.equal(ok(g, "a", { type: "ATTACK", card: "D8" }).table.length, 2)
+  })
+})
+
+describe("defend", () => {
+  const base = () => mk({ hands: { a: ["D9"], b: ["H9", "S6", "H6"] }, table: [{ a: "H7", d: null }] })
+
+  test("beats an attack card", () => {
+    const g = ok(base(), "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    assert.deepEqual(g.table, [{ a: "H7", d: "H9" }])
+    assert.deepEqual(g.hands.b, ["S6", "H6"])
+  })
+
+  test("trump beats a plain card", () => {
+    assert.equal(ok(base(), "b", { type: "DEFEND", attackIndex: 0, card: "S6" }).table[0].d, "S6")
+  })
+
+  test("ONLY_DEFENDER_CAN_DEFEND", () => {
+    assert.equal(code(base(), "a", { type: "DEFEND", attackIndex: 0, card: "D9" }), "ONLY_DEFENDER_CAN_DEFEND")
+  })
+
+  test("TAKE_ALREADY_DECLARED", () => {
+    const g = base()
+    g.takeDeclared = true
+    assert.equal(code(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" }), "TAKE_ALREADY_DECLARED")
+  })
+
+  test("BAD_ATTACK_INDEX", () => {
+    assert.equal(code(base(), "b", { type: "DEFEND", attackIndex: 1, card: "H9" }), "BAD_ATTACK_INDEX")
+    assert.equal(code(base(), "b", { type: "DEFEND", attackIndex: -1, card: "H9" }), "BAD_ATTACK_INDEX")
+    assert.equal(code(base(), "b", { type: "DEFEND", attackIndex: 0.5, card: "H9" }), "BAD_ATTACK_INDEX")
+  })
+
+  test("ALREADY_DEFENDED", () => {
+    const g = ok(base(), "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    assert.equal(code(g, "b", { type: "DEFEND", attackIndex: 0, card: "S6" }), "ALREADY_DEFENDED")
+  })
+
+  test("CARD_NOT_IN_HAND", () => {
+    assert.equal(code(base(), "b", { type: "DEFEND", attackIndex: 0, card: "HA" }), "CARD_NOT_IN_HAND")
+  })
+
+  test("DOES_NOT_BEAT", () => {
+    assert.equal(code(base(), "b", { type: "DEFEND", attackIndex: 0, card: "H6" }), "DOES_NOT_BEAT")
+  })
+})
+
+describe("transfer", () => {
+  const hands = { a: ["D9"], b: ["C7", "H8"], c: ["HA", "SA", "DA"] }
+  const base = (over = {}) =>
+    mk({ mode: "perevodnoy", players: ["a", "b", "c"], hands, table: [{ a: "H7", d: null }], ...over })
+
+  test("passes the attack on to the next seat", () => {
+    const g = ok(base(), "b", { type: "TRANSFER", card: "C7" })
+    assert.deepEqual(g.table, [{ a: "H7", d: null }, { a: "C7", d: null }])
+    assert.equal(g.attackerId, "b")
+    assert.equal(g.defenderId, "c")
+    assert.equal(g.roundLimit, 3)
+    assert.equal(g.log.at(-1).type, "TRANSFER")
+    assert.equal(g.log.at(-1).defender, "c")
+  })
+
+  test("ONLY_DEFENDER_CAN_TRANSFER", () => {
+    assert.equal(code(base(), "a", { type: "TRANSFER", card: "D9" }), "ONLY_DEFENDER_CAN_TRANSFER")
+  })
+
+  test("MODE_NOT_PEREVODNOY", () => {
+    assert.equal(code(base({ mode: "podkidnoy" }), "b", { type: "TRANSFER", card: "C7" }), "MODE_NOT_PEREVODNOY")
+  })
+
+  test("TAKE_ALREADY_DECLARED", () => {
+    const g = base()
+    g.takeDeclared = true
+    assert.equal(code(g, "b", { type: "TRANSFER", card: "C7" }), "TAKE_ALREADY_DECLARED")
+  })
+
+  test("NOTHING_TO_TRANSFER", () => {
+    assert.equal(code(base({ table: [] }), "b", { type: "TRANSFER", card: "C7" }), "NOTHING_TO_TRANSFER")
+  })
+
+  test("CANNOT_TRANSFER_AFTER_DEFEND", () => {
+    const g = base({ table: [{ a: "H7", d: "H8" }, { a: "D7", d: null }] })
+    assert.equal(code(g, "b", { type: "TRANSFER", card: "C7" }), "CANNOT_TRANSFER_AFTER_DEFEND")
+  })
+
+  test("CARD_NOT_IN_HAND", () => {
+    assert.equal(code(base(), "b", { type: "TRANSFER", card: "S7" }), "CARD_NOT_IN_HAND")
+  })
+
+  test("RANK_MUST_MATCH_ATTACK", () => {
+    assert.equal(code(base(), "b", { type: "TRANSFER", card: "H8" }), "RANK_MUST_MATCH_ATTACK")
+  })
+})
+
+describe("transfer by showing a trump", () => {
+  // S is trump; b holds S7 to show and C7 to play
+  const hands = { a: ["D9"], b: ["S7", "C7", "H8"], c: ["HA", "SA", "DA", "D7"] }
+  const base = (over = {}) =>
+    mk({
+      mode: "perevodnoy",
+      rules: { transferShow: true },
+      players: ["a", "b", "c"],
+      hands,
+      table: [{ a: "H7", d: null }],
+      ...over,
+    })
+
+  test("the trump stays in the hand and the attack moves on", () => {
+    const g = ok(base(), "b", { type: "TRANSFER_SHOW", card: "S7" })
+    assert.deepEqual(g.table, [{ a: "H7", d: null }])
+    assert.deepEqual(g.hands.b, ["S7", "C7", "H8"])
+    assert.equal(g.attackerId, "b")
+    assert.equal(g.defenderId, "c")
+    assert.equal(g.trumpShown, "S7")
+    assert.deepEqual(g.log.at(-1), { seq: 1, at: NOW + 1, type: "TRANSFER_SHOW", by: "b", card: "S7", defender: "c" })
+  })
+
+  test("TRANSFER_SHOW_OFF without the rule", () => {
+    assert.equal(code(base({ rules: undefined }), "b", { type: "TRANSFER_SHOW", card: "S7" }), "TRANSFER_SHOW_OFF")
+  })
+
+  test("NOT_A_TRUMP, and the usual transfer checks", () => {
+    assert.equal(code(base(), "b", { type: "TRANSFER_SHOW", card: "C7" }), "NOT_A_TRUMP")
+    assert.equal(code(base(), "a", { type: "TRANSFER_SHOW", card: "D9" }), "ONLY_DEFENDER_CAN_TRANSFER")
+    assert.equal(code(base({ mode: "podkidnoy" }), "b", { type: "TRANSFER_SHOW", card: "S7" }), "MODE_NOT_PEREVODNOY")
+    assert.equal(code(base({ table: [{ a: "H9", d: null }] }), "b", { type: "TRANSFER_SHOW", card: "S7" }), "RANK_MUST_MATCH_ATTACK")
+  })
+
+  test("once per round", () => {
+    let g = base({ table: [{ a: "H7", d: null }, { a: "C9", d: null }] })
+    g.hands.c = ["S9", "D9", "HA"]
+    g = ok(g, "b", { type: "TRANSFER_SHOW", card: "S7" })
+    assert.equal(code(g, "c", { type: "TRANSFER_SHOW", card: "S9" }), "TRUMP_ALREADY_SHOWN")
+    // a played transfer is still fine
+    g = ok(g, "c", { type: "TRANSFER", card: "D9" })
+    assert.equal(g.defenderId, "a")
+    // the next round clears it
+    g = ok(ok(ok(g, "a", { type: "TAKE" }), "b", { type: "PASS" }), "c", { type: "PASS" })
+    assert.equal(g.rounds, 1)
+    assert.equal(g.trumpShown, null)
+  })
+})
+
+describe("take", () => {
+  test("ONLY_DEFENDER_CAN_TAKE / NOTHING_ON_TABLE", () => {
+    const g = mk({ hands: { a: ["H7"], b: ["D6"] } })
+    assert.equal(code(g, "a", { type: "TAKE" }), "ONLY_DEFENDER_CAN_TAKE")
+    assert.equal(code(g, "b", { type: "TAKE" }), "NOTHING_ON_TABLE")
+  })
+
+  test("round ends once every attacker has passed; the defender is skipped", () => {
+    let g = mk({
+      players: ["a", "b", "c"],
+      hands: { a: ["H7"], b: ["D6"], c: ["C6"] },
+      deck: ["SA", "SK", "SQ", "SJ", "S10", "S9", "S8", "S7", "DA", "DK", "DQ", "DJ", "D10", "D9", "D8"],
+      table: [{ a: "H9", d: null }],
+    })
+    g = ok(g, "b", { type: "TAKE" })
+    assert.equal(g.takeDeclared, true)
+    g = ok(g, "a", { type: "PASS" })
+    assert.equal(g.table.length, 1)
+    g = ok(g, "c", { type: "PASS" })
+
+    assert.equal(g.table.length, 0)
+    assert.ok(g.hands.b.includes("H9"))
+    assert.equal(g.attackerId, "a")
+    assert.equal(g.defenderId, "c")
+    assert.equal(g.rounds, 1)
+    assert.equal(g.takeDeclared, false)
+    assert.deepEqual(g.passed, [])
+
+    // draw order: attacker, around the table, defender last
+    const draw = g.log.find((e) => e.type === "DRAW")
+    assert.deepEqual(Object.keys(draw.cards), ["a", "c", "b"])
+    assert.equal(draw.cards.a.length, 5)
+    assert.equal(draw.cards.c.length, 5)
+    assert.equal(draw.cards.b.length, 4)
+    assert.deepEqual(draw.cards.a, ["D8", "D9", "D10", "DJ", "DQ"])
+  })
+})
+
+describe("pass and beat", () => {
+  const defended = () =>
+    mk({
+      players: ["a", "b", "c"],
+      hands: { a: ["H6"], b: ["D6"], c: ["C6"] },
+      deck: ["SA", "SK", "SQ", "SJ", "S10", "S9", "S8", "S7", "DA", "DK", "DQ", "DJ", "D10", "D9", "D8", "C8", "C9"],
+      table: [{ a: "H9", d: "HJ" }],
+    })
+
+  test("DEFENDER_CANNOT_PASS / NOTHING_ON_TABLE", () => {
+    assert.equal(code(defended(), "b", { type: "PASS" }), "DEFENDER_CANNOT_PASS")
+    assert.equal(code(mk({ hands: { a: ["H6"], b: ["D6"] } }), "a", { type: "PASS" }), "NOTHING_ON_TABLE")
+  })
+
+  test("ONLY_DEFENDER_CAN_BEAT", () => {
+    assert.equal(code(defended(), "a", { type: "BEAT" }), "ONLY_DEFENDER_CAN_BEAT")
+  })
+
+  test("NOT_FULLY_DEFENDED", () => {
+    const g = defended()
+    g.table.push({ a: "D9", d: null })
+    g.passed = ["a", "c"]
+    assert.equal(code(g, "b", { type: "BEAT" }), "NOT_FULLY_DEFENDED")
+  })
+
+  test("ATTACKERS_NOT_PASSED", () => {
+    const g = ok(defended(), "a", { type: "PASS" })
+    assert.equal(code(g, "b", { type: "BEAT" }), "ATTACKERS_NOT_PASSED")
+  })
+
+  test("passing twice is harmless", () => {
+    let g = ok(defended(), "a", { type: "PASS" })
+    g = ok(g, "a", { type: "PASS" })
+    assert.deepEqual(g.passed, ["a"])
+  })
+
+  test("beat discards the table and hands the attack to the defender", () => {
+    let g = ok(defended(), "a", { type: "PASS" })
+    g = ok(g, "c", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.deepEqual(g.discard, ["H9", "HJ"])
+    assert.equal(g.table.length, 0)
+    assert.equal(g.attackerId, "b")
+    assert.equal(g.defenderId, "c")
+    assert.equal(g.roundLimit, 6)
+    for (const id of g.order) assert.equal(g.hands[id].length, 6)
+    assert.deepEqual(
+      g.log.map((e) => e.type),
+      ["PASS", "PASS", "BEAT", "ROUND_END", "DRAW", "TURN"]
+    )
+  })
+})
+
+describe("drawing", () => {
+  test("attackers seated after the defender draw too, before the defender", () => {
+    // four seats: a attacks b; c and d throw in from behind the defender
+    let g = mk({
+      players: ["a", "b", "c", "d"],
+      hands: { a: ["H7"], b: ["H9"], c: ["C6"], d: ["D6"] },
+      deck: ["SA", "SK", "SQ", "SJ", "S10", "S9", "S8", "S7", "DA", "DK", "DQ", "DJ", "D10", "D9", "D8", "C8", "C9", "CA", "CK", "CQ", "CJ"],
+      table: [{ a: "H6", d: "H8" }],
+    })
+    g.passed = ["a", "c", "d"]
+    g = ok(g, "b", { type: "BEAT" })
+    const draw = g.log.find((e) => e.type === "DRAW")
+    assert.deepEqual(Object.keys(draw.cards), ["a", "c", "d", "b"])
+    for (const id of g.order) assert.equal(g.hands[id].length, 6)
+  })
+})
+
+describe("end of game", () => {
+  test("emptied hands go out once the deck is empty; the last one holding cards loses", () => {
+    let g = mk({ hands: { a: ["H7"], b: ["H9", "D6"] }, table: [] })
+    g.deck = []
+    g = ok(g, "a", { type: "ATTACK", card: "H7" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    g = ok(g, "a", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.equal(g.phase, "finished")
+    assert.equal(g.loser, "b")
+    assert.deepEqual(g.finishOrder, ["a"])
+    assert.deepEqual(
+      g.log.slice(-2).map((e) => [e.type, e.by ?? e.loser]),
+      [["OUT", "a"], ["FINISH", "b"]]
+    )
+    assert.equal(code(g, "b", { type: "TAKE" }), "GAME_NOT_PLAYING")
+  })
+
+  test("everybody out at once is a draw", () => {
+    let g = mk({ hands: { a: ["H7"], b: ["H9"] } })
+    g.deck = []
+    g = ok(g, "a", { type: "ATTACK", card: "H7" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    g = ok(g, "a", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.equal(g.phase, "finished")
+    assert.equal(g.loser, null)
+  })
+
+  test("a player who goes out is skipped for the next turn", () => {
+    let g = mk({ players: ["a", "b", "c"], hands: { a: ["H7"], b: ["H9", "D6"], c: ["C6", "C7"] } })
+    g.deck = []
+    g = ok(g, "a", { type: "ATTACK", card: "H7" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    g = ok(g, "a", { type: "PASS" })
+    g = ok(g, "c", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.equal(g.phase, "playing")
+    assert.equal(g.active.a, false)
+    assert.equal(g.attackerId, "b")
+    assert.equal(g.defenderId, "c")
+  })
+})
+
+describe("timeouts", () => {
+  test("empty table: the main attacker leads the cheapest card", () => {
+    const g = mk({ hands: { a: ["S7", "HK", "D9"], b: ["C6"] } })
+    const { state, events } = applyTimeout(g, NOW + 5)
+    assert.deepEqual(state.table, [{ a: "D9", d: null }])
+    assert.equal(events[0].auto, true)
+    assert.equal(events[0].at, NOW + 5)
+  })
+
+  test("undefended card: the defender takes", () => {
+    const g = mk({ hands: { a: ["S7"], b: ["C6"] }, table: [{ a: "H7", d: null }] })
+    const { state } = applyTimeout(g, NOW + 5)
+    assert.equal(state.takeDeclared, true)
+    assert.equal(state.table.length, 1)
+  })
+
+  test("after TAKE: attackers pass and the round ends", () => {
+    const g = mk({ hands: { a: ["S7"], b: ["C6"] }, table: [{ a: "H7", d: null }], deck: ["D6", "D7", "D8", "D9", "D10", "DJ", "DQ", "DK", "DA"] })
+    g.takeDeclared = true
+    const { state, events } = applyTimeout(g, NOW + 5)
+    assert.equal(state.table.length, 0)
+    assert.ok(state.hands.b.includes("H7"))
+    assert.equal(state.attackerId, "a")
+    assert.deepEqual(events[0], { seq: 1, at: NOW + 5, type: "PASS", by: "a", auto: true })
+  })
+
+  test("fully defended: attackers pass and the cards are beaten", () => {
+    const g = mk({ hands: { a: ["S7"], b: ["C6"] }, table: [{ a: "H7", d: "H8" }], deck: ["D6", "D7", "D8", "D9", "D10", "DJ", "DQ", "DK", "DA"] })
+    const { state } = applyTimeout(g, NOW + 5)
+    assert.deepEqual(state.discard, ["H7", "H8"])
+    assert.equal(state.attackerId, "b")
+  })
+
+  test("finished games are left alone", () => {
+    const g = mk({ hands: { a: ["S7"], b: ["C6"] } })
+    g.phase = "finished"
+    assert.deepEqual(applyTimeout(g, NOW).events, [])
+  })
+})
+
+describe("forfeitPlayer", () => {
+  test("an active player loses on the spot", () => {
+    const { state, events } = forfeitPlayer(mk({ hands: { a: ["S7"], b: ["C6"] } }), "b", NOW + 9)
+    assert.equal(state.phase, "finished")
+    assert.equal(state.loser, "b")
+    assert.deepEqual(events.map((e) => e.type), ["FORFEIT", "FINISH"])
+  })
+
+  test("a player already out only leaves a FORFEIT note", () => {
+    const g = mk({ players: ["a", "b", "c"], hands: { a: [], b: ["C6"], c: ["C7"] } })
+    g.active.a = false
+    const { state, events } = forfeitPlayer(g, "a", NOW)
+    assert.equal(state.phase, "playing")
+    assert.deepEqual(events.map((e) => e.type), ["FORFEIT"])
+  })
+})
+
+describe("teams", () => {
+  // a + c against b + d, seated a b c d
+  const four = (over = {}) =>
+    mk({
+      teams: true,
+      players: ["a", "b", "c", "d"],
+      hands: { a: ["H7", "D7"], b: ["H9", "SA"], c: ["C7", "CA"], d: ["S7", "DK"] },
+      table: [{ a: "H7", d: null }],
+      ...over,
+    })
+
+  test("partners sit opposite: seat parity is the team", () => {
+    const g = dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 4, teams: true }, ["a", "b", "c", "d"], createDeck(36), OPTS)
+    assert.deepEqual(g.teams, { a: 0, b: 1, c: 0, d: 1 })
+    assert.notEqual(g.teams[g.attackerId], g.teams[g.defenderId])
+    assert.equal(dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 2, teams: true }, ["a", "b"], createDeck(36), OPTS).teams, undefined)
+  })
+
+  test("matched teams pair the strongest with the weakest", () => {
+    const rating = { w: 1200, x: 1400, y: 1500, z: 1800 }
+    const group = ["w", "x", "y", "z"].map((id) => ({ id, rating: rating[id] }))
+    const g = dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 4, teams: true }, teamSeating(balancedTeams(group)), createDeck(36), OPTS)
+    assert.equal(g.teams.w, g.teams.z)
+    assert.equal(g.teams.x, g.teams.y)
+    const sums = [0, 0]
+    for (const id of g.order) sums[g.teams[id]] += rating[id]
+    assert.deepEqual(sums.sort((a, b) => a - b), [2900, 3000])
+  })
+
+  test("the defender's partner neither throws in nor has to pass", () => {
+    let g = four()
+    g.hands.b.push("D6")
+    assert.equal(code(g, "d", { type: "ATTACK", card: "S7" }), "PARTNER_CANNOT_ATTACK")
+    assert.equal(code(g, "d", { type: "PASS" }), "PARTNER_CANNOT_ATTACK")
+    assert.equal(allowedActions(g, "d").pass, false)
+    assert.deepEqual(legalMoves(g, "d").attack, [])
+    g = ok(g, "c", { type: "ATTACK", card: "C7" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 1, card: "SA" })
+    g = ok(ok(g, "a", { type: "PASS" }), "c", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.equal(g.attackerId, "b")
+    assert.equal(g.defenderId, "c")
+  })
+
+  test("after a take the seat behind the taker attacks the next opponent", () => {
+    let g = ok(four(), "b", { type: "TAKE" })
+    g = ok(ok(g, "a", { type: "PASS" }), "c", { type: "PASS" })
+    assert.equal(g.attackerId, "c")
+    assert.equal(g.defenderId, "d")
+  })
+
+  test("defence never passes to a partner", () => {
+    // d is out: after b the next opponent is c, not d
+    const g = four({ mode: "perevodnoy" })
+    g.active.d = false
+    g.hands.b.push("C7")
+    g.hands.c.push("C8", "C9")
+    const t = ok(g, "b", { type: "TRANSFER", card: "C7" })
+    assert.equal(t.defenderId, "c")
+    // a is c's partner now
+    assert.equal(code(t, "a", { type: "ATTACK", card: "D7" }), "PARTNER_CANNOT_ATTACK")
+  })
+
+  test("a team loses once only its players hold cards", () => {
+    // b beats the last attack and goes out; d is already out, so a and c are left
+    let g = four({ hands: { a: ["H7", "D7"], b: ["H9"], c: ["C7"], d: [] } })
+    g.deck = []
+    g.active.d = false
+    g.finishOrder = ["d"]
+    g = ok(g, "b", { type: "DEFEND", attackIndex: 0, card: "H9" })
+    g = ok(ok(g, "a", { type: "PASS" }), "c", { type: "PASS" })
+    g = ok(g, "b", { type: "BEAT" })
+    assert.equal(g.phase, "finished")
+    assert.equal(g.loser, null)
+    assert.equal(g.loserTeam, 0)
+    assert.deepEqual(g.order.map((id) => isLoser(g, id)), [true, false, true, false])
+    assert.deepEqual(g.log.at(-1), { seq: g.log.length, at: NOW + 1, type: "FINISH", loser: null, loserTeam: 0 })
+  })
+
+  test("a forfeit loses for the whole team", () => {
+    const { state } = forfeitPlayer(four(), "d", NOW)
+    assert.equal(state.loser, "d")
+    assert.equal(state.loserTeam, 1)
+    assert.equal(isLoser(state, "b"), true)
+    assert.equal(isLoser(state, "a"), false)
+  })
+})
+
+describe("purity and the log", () => {
+  test("inputs are never mutated, errors included", () => {
+    const g = mk({ hands: { a: ["H7", "D7"], b: ["H9"] } })
+    const snapshot = structuredClone(g)
+    ok(g, "a", { type: "ATTACK", card: "H7" })
+    code(g, "b", { type: "ATTACK", card: "H9" })
+    applyTimeout(g, NOW)
+    forfeitPlayer(g, "a", NOW)
+    assert.deepEqual(g, snapshot)
+  })
+
+  test("events carry gapless seq numbers and the time passed in", () => {
+    const deck = createDeck(36)
+    let g = dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 2 }, ["a", "b"], deck, OPTS)
+    const card = g.hands[g.attackerId][0]
+    const r = applyAction(g, g.attackerId, { type: "ATTACK", card }, NOW + 42)
+    assert.equal(r.ok, true)
+    assert.deepEqual(r.events, [{ seq: 2, at: NOW + 42, type: "ATTACK", by: g.attackerId, card }])
+    g = applyTimeout(r.state, NOW + 50).state
+    assert.deepEqual(g.log.map((e) => e.seq), [1, 2, 3])
+  })
+
+  test("unknown actions are rejected", () => {
+    assert.equal(code(mk({ hands: { a: ["H7"], b: ["H9"] } }), "a", { type: "NOPE" }), "UNKNOWN_MSG")
+  })
+})
+
+describe("allowedActions", () => {
+  test("opening: only the main attacker may attack", () => {
+    const g = mk({ players: ["a", "b", "c"], hands: { a: ["H7"], b: ["H9"], c: ["C7"] } })
+    assert.deepEqual(allowedActions(g, "a"), { attack: true, defend: false, transfer: false, transferShow: false, take: false, beat: false, pass: false })
+    assert.equal(allowedActions(g, "c").attack, false)
+    assert.equal(allowedActions(g, "b").take, false)
+  })
+
+  test("defender facing an attack", () => {
+    const g = mk({ mode: "perevodnoy", hands: { a: ["D9"], b: ["C7", "H9"] }, table: [{ a: "H7", d: null }] })
+    assert.deepEqual(allowedActions(g, "b"), { attack: false, defend: true, transfer: true, transferShow: false, take: true, beat: false, pass: false })
+    assert.deepEqual(allowedActions(g, "a"), { attack: false, defend: false, transfer: false, transferShow: false, take: false, beat: false, pass: true })
+  })
+
+  test("beat opens up once everyone has passed", () => {
+    const g = mk({ hands: { a: ["D9"], b: ["C7"] }, table: [{ a: "H7", d: "H9" }] })
+    assert.equal(allowedActions(g, "b").beat, false)
+    g.passed = ["a"]
+    assert.equal(allowedActions(g, "b").beat, true)
+    assert.equal(allowedActions(g, "a").pass, false)
+  })
+
+  test("nothing for outsiders or finished games", () => {
+    const g = mk({ hands: { a: ["H7"], b: ["H9"] } })
+    assert.ok(Object.values(allowedActions(g, "z")).every((v) => !v))
+    g.phase = "finished"
+    assert.ok(Object.values(allowedActions(g, "a")).every((v) => !v))
+  })
+})
+
+describe("legalMoves", () => {
+  // every card/action pair the engine accepts must be listed, and nothing else
+  function agrees(g, playerId) {
+    const moves = legalMoves(g, playerId)
+    for (const card of g.hands[playerId] ?? []) {
+      const accepts = (action) => applyAction(g, playerId, action, NOW).ok
+      assert.equal(moves.attack.includes(card), accepts({ type: "ATTACK", card }), `ATTACK ${card}`)
+      assert.equal(moves.transfer.includes(card), accepts({ type: "TRANSFER", card }), `TRANSFER ${card}`)
+      assert.equal(moves.transferShow.includes(card), accepts({ type: "TRANSFER_SHOW", card }), `TRANSFER_SHOW ${card}`)
+      g.table.forEach((p, attackIndex) => {
+        const entry = moves.defend.find((d) => d.attackIndex === attackIndex)
+        assert.equal(!!entry?.cards.includes(card), accepts({ type: "DEFEND", attackIndex, card }), `DEFEND ${attackIndex} ${card}`)
+      })
+    }
+  }
+
+  test("opening: the main attacker may lead anything", () => {
+    const g = mk({ players: ["a", "b", "c"], hands: { a: ["H7", "SA"], b: ["H9"], c: ["C7"] } })
+    assert.deepEqual(legalMoves(g, "a"), { attack: ["H7", "SA"], defend: [], transfer: [], transferShow: [] })
+    assert.deepEqual(legalMoves(g, "c").attack, [])
+  })
+
+  test("throw-ins match table ranks and stop at the round limit", () => {
+    const g = mk({ hands: { a: ["D7", "D9", "C8"], b: ["S6", "S8"] }, table: [{ a: "H7", d: "H9" }] })
+    assert.deepEqual(legalMoves(g, "a").attack, ["D7", "D9"])
+    g.table.push({ a: "C7", d: null })
+    assert.deepEqual(legalMoves(g, "a").attack, [])
+  })
+
+  test("defender: beating cards per undefended attack, and transfers", () => {
+    const g = mk({
+      mode: "perevodnoy",
+      players: ["a", "b", "c"],
+      hands: { a: ["D9"], b: ["H9", "S6", "C7", "D8"], c: ["CA", "CK", "CQ"] },
+      table: [{ a: "H7", d: null }, { a: "D7", d: null }],
+    })
+    assert.deepEqual(legalMoves(g, "b"), {
+      attack: [],
+      defend: [
+        { attackIndex: 0, cards: ["H9", "S6"] },
+        { attackIndex: 1, cards: ["S6", "D8"] },
+      ],
+      transfer: ["C7"],
+      transferShow: [],
+    })
+  })
+
+  test("nothing after TAKE, for outsiders or once finished", () => {
+    const g = mk({ hands: { a: ["D9"], b: ["H9"] }, table: [{ a: "H7", d: null }] })
+    g.takeDeclared = true
+    assert.deepEqual(legalMoves(g, "b"), { attack: [], defend: [], transfer: [], transferShow: [] })
+    assert.deepEqual(legalMoves(g, "z"), { attack: [], defend: [], transfer: [], transferShow: [] })
+    g.phase = "finished"
+    assert.deepEqual(legalMoves(g, "a"), { attack: [], defend: [], transfer: [], transferShow: [] })
+  })
+
+  test("agrees with applyAction card by card", () => {
+    for (const mode of ["podkidnoy", "perevodnoy"]) {
+      const g = mk({
+        mode,
+        players: ["a", "b", "c"],
+        hands: { a: ["H8", "D7", "SA", "C6"], b: ["H9", "S6", "C7", "D8", "HK"], c: ["CA", "H7", "D9"] },
+        table: [{ a: "H7", d: null }, { a: "D7", d: "DJ" }, { a: "C9", d: null }],
+      })
+      g.roundLimit = 5
+      for (const id of g.order) agrees(g, id)
+      g.table = [{ a: "S7", d: null }]
+      for (const id of g.order) agrees(g, id)
+    }
+  })
+})
+
+describe("rule variants", () => {
+  const deal = (rules) => dealGame("r1", { mode: "podkidnoy", deckSize: 36, maxPlayers: 2, rules }, ["a", "b"], createDeck(36), OPTS)
+
+  test("defaults keep the classic rules", () => {
+    assert.deepEqual(rulesOf({ mode: "podkidnoy", deckSize: 36, maxPlayers: 2 }), DEFAULT_RULES)
+    assert.deepEqual(rulesOf({ mode: "podkidnoy", deckSize: 36, maxPlayers: 2, rules: { throwIn: "neighbors" } }), {
+      ...DEFAULT_RULES,
+      throwIn: "neighbors",
+    })
+    assert.equal(deal(undefined).roundLimit, 6)
+  })
+
+  test("first round holds at most 5 cards", () => {
+    const g = deal({ firstRoundLimit5: true })
+    assert.equal(g.roundLimit, 5)
+    const h = mk({ rules: { firstRoundLimit5: true }, hands: { a: ["H7", "D7"], b: ["S6", "S7", "S8", "S9", "S10", "SJ"] } })
+    h.table = [{ a: "C7", d: null }]
+    const t = ok(h, "b", { type: "TAKE" })
+    // the table clears, rounds moves on and the cap goes back to the hand size
+    const next = ok(t, "a", { type: "PASS" })
+    assert.equal(next.rounds, 1)
+    assert.equal(next.roundLimit, next.hands[next.defenderId].length)
+  })
+
+  test("first round cap also applies after a transfer", () => {
+    const g = mk({
+      mode: "perevodnoy",
+      rules: { firstRoundLimit5: true },
+      players: ["a", "b", "c"],
+      hands: { a: ["H6"], b: ["D7", "S8"], c: ["C6", "C7", "C8", "C9", "C10", "CJ"] },
+      table: [{ a: "H7", d: null }],
+    })
+    assert.equal(ok(g, "b", { type: "TRANSFER", card: "D7" }).roundLimit, 5)
+  })
+
+  test("six caps a big hand, hand keeps it", () => {
+    for (const [roundLimit, expected] of [
+      ["hand", 8],
+      ["six", 6],
+    ]) {
+      // b beats, then attacks a, who holds 8 cards
+      const g = mk({
+        rules: { roundLimit },
+        hands: { a: ["D6", "D7", "D8", "D9", "D10", "DJ", "DQ", "DK"], b: ["H6"] },
+        table: [{ a: "H9", d: "HJ" }],
+      })
+      g.rounds = 3
+      const r = ok(ok(g, "a", { type: "PASS" }), "b", { type: "BEAT" })
+      assert.equal(r.defenderId, "a")
+      assert.equal(r.roundLimit, expected)
+    }
+  })
+
+  describe("neighbours-only throw-ins", () => {
+    // a attacks b; c sits after b (neighbour), d sits across
+    const four = () =>
+      mk({
+        rules: { throwIn: "neighbors" },
+        players: ["a", "b", "c", "d"],
+        hands: { a: ["H6"], b: ["D6", "DA"], c: ["C7", "C9"], d: ["S7", "D9"] },
+        table: [{ a: "H7", d: null }],
+      })
+
+    test("only the defender's neighbours may throw in", () => {
+      const g = four()
+      assert.equal(code(g, "d", { type: "ATTACK", card: "S7" }), "NEIGHBORS_ONLY")
+      assert.equal(code(g, "d", { type: "PASS" }), "NEIGHBORS_ONLY")
+      assert.equal(ok(g, "c", { type: "ATTACK", card: "C7" }).table.length, 2)
+      assert.deepEqual(allowedActions(g, "d"), {
+        attack: false,
+        defend: false,
+        transfer: false,
+        transferShow: false,
+        take: false,
+        beat: false,
+        pass: false,
+      })
+      assert.deepEqual(legalMoves(g, "d").attack, [])
+    })
+
+    test("the round ends without the seat across passing", () => {
+      let g = four()
+      g.table = [{ a: "H7", d: "HA" }]
+      g = ok(g, "a", { type: "PASS" })
+      assert.equal(code(g, "b", { type: "BEAT" }), "ATTACKERS_NOT_PASSED")
+      g = ok(g, "c", { type: "PASS" })
+      assert.equal(ok(g, "b", { type: "BEAT" }).rounds, 1)
+    })
+
+    test("everyone throws in under the default rule", () => {
+      const g = four()
+      g.config.rules = undefined
+      assert.equal(ok(g, "d", { type: "ATTACK", card: "S7" }).table.length, 2)
+    })
+  })
+})